@@ -4,9 +4,21 @@ import type React from "react"
 import { useRef, useEffect, useState, useCallback } from "react"
 import { useGesture } from "react-use-gesture"
 import { motion, AnimatePresence } from "framer-motion"
-import { ZoomIn, ZoomOut, RotateCcw, Download, Eye, EyeOff } from "lucide-react"
+import {
+  ZoomIn,
+  ZoomOut,
+  RotateCcw,
+  Download,
+  Eye,
+  ImageIcon,
+  SquareSplitHorizontal,
+  Columns2,
+  Diff,
+  ChevronsLeftRight,
+} from "lucide-react"
 import { Button } from "./ui/button"
-import { downloadImage } from "../utils/imageUtils"
+import { useToast } from "./Toasts"
+import { createDifferenceImage, downloadImage } from "../utils/imageUtils"
 
 interface CanvasProps {
   originalImage?: string
@@ -17,6 +29,23 @@ interface CanvasProps {
   className?: string
 }
 
+type CompareMode = "result" | "original" | "split" | "side-by-side" | "difference"
+
+const COMPARE_MODES: { id: CompareMode; label: string; icon: typeof Eye }[] = [
+  { id: "result", label: "Result", icon: ImageIcon },
+  { id: "original", label: "Original", icon: Eye },
+  { id: "split", label: "Split view", icon: SquareSplitHorizontal },
+  { id: "side-by-side", label: "Side by side", icon: Columns2 },
+  { id: "difference", label: "Highlight differences", icon: Diff },
+]
+
+// Arrow keys move the split by this many percent, or the larger step with Shift
+const SPLIT_STEP = 1
+const SPLIT_LARGE_STEP = 10
+
+// Space between the side-by-side panels, in CSS pixels
+const SIDE_BY_SIDE_GAP = 8
+
 export function Canvas({
   originalImage,
   currentImage,
@@ -27,12 +56,23 @@ export function Canvas({
 }: CanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const imageRef = useRef<HTMLImageElement>(null)
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const splitStageRef = useRef<HTMLDivElement>(null)
+  // The latest difference image and the pair it was computed from
+  const differenceRef = useRef<{ original: string; result: string; url: string } | null>(null)
 
   const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 })
-  const [showOriginal, setShowOriginal] = useState(false)
+  const [compareMode, setCompareMode] = useState<CompareMode>("result")
+  // Percentage of the image, from the left, that shows the original in split view
+  const [splitPosition, setSplitPosition] = useState(50)
+  const [differenceUrl, setDifferenceUrl] = useState<string | null>(null)
+  const [differenceError, setDifferenceError] = useState(false)
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 })
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 })
   const [currentPreviewIndex, setCurrentPreviewIndex] = useState(0)
 
+  const { addToast } = useToast()
+
   // Progressive preview cycling
   useEffect(() => {
     if (previewImages.length > 1 && isLoading) {
@@ -49,8 +89,69 @@ export function Canvas({
     setTransform({ x: 0, y: 0, scale: 1 })
   }, [currentImage, originalImage])
 
+  const canCompare = !!originalImage && !!currentImage
+  // Split, side-by-side and difference views replace the single image
+  const isComparing = canCompare && compareMode !== "result" && compareMode !== "original"
   const displayImage =
-    showOriginal && originalImage ? originalImage : currentImage || previewImages[currentPreviewIndex]
+    compareMode === "original" && originalImage ? originalImage : currentImage || previewImages[currentPreviewIndex]
+
+  // The compare views size the image themselves, so both layers share one box
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(viewport)
+    return () => observer.disconnect()
+  }, [])
+
+  // The difference image is computed from the full-resolution pair, once per
+  // pair: switching modes and back reuses it until either image changes
+  useEffect(() => {
+    if (!originalImage || !currentImage || compareMode !== "difference") return
+
+    setDifferenceError(false)
+    const cached = differenceRef.current
+    if (cached?.original === originalImage && cached.result === currentImage) {
+      setDifferenceUrl(cached.url)
+      return
+    }
+
+    let cancelled = false
+    setDifferenceUrl(null)
+
+    createDifferenceImage(originalImage, currentImage)
+      .then((blob) => {
+        if (cancelled) return
+        if (differenceRef.current) URL.revokeObjectURL(differenceRef.current.url)
+        const url = URL.createObjectURL(blob)
+        differenceRef.current = { original: originalImage, result: currentImage, url }
+        setDifferenceUrl(url)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        console.error("Failed to compare images:", error)
+        setDifferenceError(true)
+        addToast({
+          type: "error",
+          title: "Comparison failed",
+          message: "The images could not be compared",
+          duration: 4000,
+        })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [compareMode, originalImage, currentImage, addToast])
+
+  useEffect(() => {
+    return () => {
+      if (differenceRef.current) URL.revokeObjectURL(differenceRef.current.url)
+    }
+  }, [])
 
   const handleImageLoad = useCallback(
     (e: React.SyntheticEvent<HTMLImageElement>) => {
@@ -74,6 +175,59 @@ export function Canvas({
     setTransform((prev) => ({ ...prev, scale: Math.max(prev.scale / 1.5, 0.1) }))
   }, [])
 
+  // The largest size that fits the image in a panel without enlarging it, like max-w-full max-h-full
+  const fitImage = useCallback(
+    (panel: { width: number; height: number }) => {
+      const { width, height } = imageDimensions
+      if (!width || !height) return { width: 0, height: 0 }
+      const scale = Math.min(1, panel.width / width, panel.height / height)
+      return { width: width * scale, height: height * scale }
+    },
+    [imageDimensions],
+  )
+
+  const moveSplitTo = useCallback((clientX: number) => {
+    const rect = splitStageRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return
+    setSplitPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)))
+  }, [])
+
+  // The handle takes the pointer from the pan gesture while it is dragged
+  const handleSplitPointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      e.stopPropagation()
+      e.currentTarget.setPointerCapture(e.pointerId)
+      moveSplitTo(e.clientX)
+    },
+    [moveSplitTo],
+  )
+
+  const handleSplitPointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) moveSplitTo(e.clientX)
+    },
+    [moveSplitTo],
+  )
+
+  const handleSplitKeyDown = useCallback((e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? SPLIT_LARGE_STEP : SPLIT_STEP
+    const moves: Record<string, (position: number) => number> = {
+      ArrowLeft: (position) => position - step,
+      ArrowDown: (position) => position - step,
+      ArrowRight: (position) => position + step,
+      ArrowUp: (position) => position + step,
+      PageDown: (position) => position - SPLIT_LARGE_STEP,
+      PageUp: (position) => position + SPLIT_LARGE_STEP,
+      Home: () => 0,
+      End: () => 100,
+    }
+    const move = moves[e.key]
+    if (!move) return
+
+    e.preventDefault()
+    setSplitPosition((position) => Math.min(100, Math.max(0, move(position))))
+  }, [])
+
   const handleDownload = useCallback(() => {
     if (displayImage) {
       const filename = `generated-image-${Date.now()}.png`
@@ -117,6 +271,117 @@ export function Canvas({
     },
   )
 
+  // Every compare view applies the same zoom and pan, so the images stay aligned
+  const stageStyle = {
+    transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+    transformOrigin: "center",
+    transition: "transform 0.1s ease-out",
+  }
+
+  const renderComparison = () => {
+    if (!originalImage || !currentImage) return null
+
+    if (compareMode === "side-by-side") {
+      const panelSize = fitImage({
+        width: Math.max(0, (viewportSize.width - SIDE_BY_SIDE_GAP) / 2),
+        height: viewportSize.height,
+      })
+      const panels = [
+        { label: "Before", src: originalImage },
+        { label: "After", src: currentImage },
+      ]
+
+      return (
+        <div className="w-full h-full flex" style={{ gap: SIDE_BY_SIDE_GAP }}>
+          {panels.map(({ label, src }) => (
+            <div key={label} className="relative flex-1 min-w-0 flex items-center justify-center overflow-hidden">
+              <img
+                src={src}
+                alt={`${label} image`}
+                className="shrink-0 select-none"
+                style={{ ...stageStyle, width: panelSize.width, height: panelSize.height }}
+                onLoad={src === currentImage ? handleImageLoad : undefined}
+                onDragStart={(e) => e.preventDefault()}
+              />
+              <span className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-background-surface/90 backdrop-blur-sm rounded px-2 py-0.5 text-xs text-text-muted">
+                {label}
+              </span>
+            </div>
+          ))}
+        </div>
+      )
+    }
+
+    const stageSize = fitImage(viewportSize)
+
+    if (compareMode === "difference") {
+      return (
+        <>
+          {differenceUrl && (
+            <img
+              src={differenceUrl}
+              alt="Differences between the original and the result"
+              className="shrink-0 select-none"
+              style={{ ...stageStyle, width: stageSize.width, height: stageSize.height }}
+              onDragStart={(e) => e.preventDefault()}
+            />
+          )}
+          {!differenceUrl && (
+            <p className="text-sm text-text-muted">
+              {differenceError ? "The images could not be compared" : "Comparing images..."}
+            </p>
+          )}
+        </>
+      )
+    }
+
+    // Split view: the original covers the result up to the divider
+    return (
+      <div
+        ref={splitStageRef}
+        className="relative shrink-0"
+        style={{ ...stageStyle, width: stageSize.width, height: stageSize.height }}
+      >
+        <img
+          src={currentImage}
+          alt="Result image"
+          className="absolute inset-0 w-full h-full select-none"
+          onLoad={handleImageLoad}
+          onDragStart={(e) => e.preventDefault()}
+        />
+        <img
+          src={originalImage}
+          alt="Original image"
+          className="absolute inset-0 w-full h-full select-none"
+          style={{ clipPath: `inset(0 ${100 - splitPosition}% 0 0)` }}
+          onDragStart={(e) => e.preventDefault()}
+        />
+
+        {/* The divider keeps its on-screen size at any zoom */}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+          style={{ left: `${splitPosition}%`, transform: `translateX(-50%) scaleX(${1 / transform.scale})` }}
+        />
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Original and result split"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(splitPosition)}
+          aria-valuetext={`${Math.round(splitPosition)}% original`}
+          className="absolute top-1/2 w-8 h-8 rounded-full bg-background-surface text-text-high shadow-lg flex items-center justify-center cursor-ew-resize touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-primary"
+          style={{ left: `${splitPosition}%`, transform: `translate(-50%, -50%) scale(${1 / transform.scale})` }}
+          onPointerDown={handleSplitPointerDown}
+          onPointerMove={handleSplitPointerMove}
+          onKeyDown={handleSplitKeyDown}
+        >
+          <ChevronsLeftRight className="w-4 h-4" />
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className={`canvas-container relative ${className}`} ref={containerRef}>
       {/* Canvas Controls */}
@@ -147,70 +412,92 @@ export function Canvas({
         )}
       </div>
 
-      {/* Compare Toggle */}
-      {originalImage && currentImage && (
-        <div className="absolute top-4 left-4 z-10">
-          <Button
-            variant="secondary"
-            size="sm"
-            onClick={() => setShowOriginal(!showOriginal)}
-            className="bg-background-surface/90 backdrop-blur-sm"
-          >
-            {showOriginal ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-            <span className="ml-2 text-sm">{showOriginal ? "Hide Original" : "Show Original"}</span>
-          </Button>
+      {/* Compare Modes */}
+      {canCompare && (
+        <div
+          className="absolute top-4 left-4 z-10 flex gap-1 p-1 rounded-md bg-background-surface/90 backdrop-blur-sm"
+          role="group"
+          aria-label="Compare with the original"
+        >
+          {COMPARE_MODES.map(({ id, label, icon: Icon }) => (
+            <Button
+              key={id}
+              variant={compareMode === id ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setCompareMode(id)}
+              title={label}
+              aria-label={label}
+              aria-pressed={compareMode === id}
+              className="h-8 w-8 p-0"
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
         </div>
       )}
 
       {/* Image Container */}
       <div
+        ref={viewportRef}
         className="w-full h-full flex items-center justify-center overflow-hidden touch-manipulation"
         {...bind()}
         style={{ cursor: transform.scale > 1 ? "grab" : "default" }}
       >
-        <AnimatePresence mode="wait">
-          {displayImage ? (
-            <motion.img
-              key={displayImage}
-              ref={imageRef}
-              src={displayImage}
-              alt="Generated or uploaded image"
-              className="max-w-full max-h-full object-contain select-none"
-              style={{
-                transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
-                transformOrigin: "center",
-                transition: "transform 0.1s ease-out",
-              }}
-              onLoad={handleImageLoad}
-              onDragStart={(e) => e.preventDefault()}
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.9 }}
-              transition={{ duration: 0.3 }}
-            />
-          ) : (
-            <motion.div
-              className="flex flex-col items-center justify-center text-text-muted p-8"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-            >
-              <div className="w-24 h-24 border-2 border-dashed border-border-default rounded-lg flex items-center justify-center mb-4">
-                <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                  />
-                </svg>
-              </div>
-              <p className="text-sm text-center">Upload an image or generate one to get started</p>
-            </motion.div>
-          )}
-        </AnimatePresence>
+        {isComparing ? (
+          renderComparison()
+        ) : (
+          <AnimatePresence mode="wait">
+            {displayImage ? (
+              <motion.img
+                key={displayImage}
+                ref={imageRef}
+                src={displayImage}
+                alt="Generated or uploaded image"
+                className="max-w-full max-h-full object-contain select-none"
+                style={stageStyle}
+                onLoad={handleImageLoad}
+                onDragStart={(e) => e.preventDefault()}
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.9 }}
+                transition={{ duration: 0.3 }}
+              />
+            ) : (
+              <motion.div
+                className="flex flex-col items-center justify-center text-text-muted p-8"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+              >
+                <div className="w-24 h-24 border-2 border-dashed border-border-default rounded-lg flex items-center justify-center mb-4">
+                  <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                </div>
+                <p className="text-sm text-center">Upload an image or generate one to get started</p>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        )}
       </div>
 
+      {/* Split Labels */}
+      {isComparing && compareMode === "split" && (
+        <>
+          <span className="absolute top-16 left-4 bg-background-surface/90 backdrop-blur-sm rounded px-2 py-0.5 text-xs text-text-muted">
+            Before
+          </span>
+          <span className="absolute top-16 right-4 bg-background-surface/90 backdrop-blur-sm rounded px-2 py-0.5 text-xs text-text-muted">
+            After
+          </span>
+        </>
+      )}
+
       {/* Loading Overlay */}
       {isLoading && (
         <motion.div
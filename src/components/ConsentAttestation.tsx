@@ -0,0 +1,30 @@
+"use client"
+import { ShieldCheck } from "lucide-react"
+
+interface ConsentAttestationProps {
+  statement: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+  className?: string
+}
+
+export function ConsentAttestation({ statement, checked, onChange, className = "" }: ConsentAttestationProps) {
+  return (
+    <div className={`bg-background-surface border border-border-default rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex items-center space-x-2">
+        <ShieldCheck className="w-4 h-4 text-brand-primary" />
+        <span className="text-sm font-medium">Consent required</span>
+      </div>
+
+      <label className="flex items-start space-x-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={(e) => onChange(e.target.checked)}
+          className="mt-0.5 h-4 w-4 shrink-0 accent-brand-primary"
+        />
+        <span className="text-xs text-text-muted">{statement}</span>
+      </label>
+    </div>
+  )
+}
@@ -107,6 +107,9 @@ export function Gallery({ jobs, onRestore, onDelete, className = "" }: GalleryPr
               </div>
 
               <div className="p-3">
+                <p className="text-xs truncate" title={job.params.prompt}>
+                  {job.params.prompt}
+                </p>
                 <p className="text-xs text-text-muted truncate">{new Date(job.createdAt).toLocaleDateString()}</p>
                 <p className="text-xs text-text-muted">Model: {job.modelId}</p>
               </div>
@@ -133,7 +136,13 @@ export function Gallery({ jobs, onRestore, onDelete, className = "" }: GalleryPr
               onClick={(e) => e.stopPropagation()}
             >
               <div className="p-4 border-b border-border-default flex items-center justify-between">
-                <h3 className="font-semibold">Generated Image</h3>
+                <div>
+                  <h3 className="font-semibold">{selectedJob.kind === "edit" ? "Edited Image" : "Generated Image"}</h3>
+                  <p className="text-xs text-text-muted">
+                    {selectedJob.params.mode} · {selectedJob.params.size}
+                    {selectedJob.resolvedSeed !== undefined && ` · seed ${selectedJob.resolvedSeed}`}
+                  </p>
+                </div>
                 <div className="flex space-x-2">
                   <Button variant="secondary" size="sm" onClick={() => handleDownload(selectedJob)}>
                     <Download className="w-4 h-4 mr-2" />
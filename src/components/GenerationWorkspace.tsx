@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect } from "react"
 import { motion } from "framer-motion"
 import { Canvas } from "./Canvas"
 import { PromptInput } from "./PromptInput"
@@ -13,10 +13,15 @@ import { Gallery } from "./Gallery"
 import { BottomSheetMobile } from "./BottomSheetMobile"
 import { useJobManager } from "../hooks/useJobManager"
 import { useProgressiveImage } from "../hooks/useProgressiveImage"
+import { useModels } from "../hooks/useModels"
 import { useToast } from "./Toasts"
 import { useMobile } from "../hooks/use-mobile"
+import { useSavedMasks } from "../hooks/useSavedMasks"
 import { ProgressIndicator } from "./ProgressIndicator" // Import ProgressIndicator
-import type { Mode, GenerationParams, EditParams } from "../types"
+import { ConsentAttestation } from "./ConsentAttestation"
+import { findMode } from "../utils/modeUtils"
+import { uploadFile } from "../utils/uploadUtils"
+import type { Mode, GenerationParams, EditParams, Job } from "../types"
 import modes from "../config/modes.json"
 
 type WorkspaceMode = "generate" | "edit" | "mask" | "upload" | "history"
@@ -27,15 +32,42 @@ export function GenerationWorkspace() {
   const [negativePrompt, setNegativePrompt] = useState("")
   const [selectedMode, setSelectedMode] = useState<string>("add-girlfriend")
   const [selectedPreset, setSelectedPreset] = useState<string>("photoreal")
+  // Undefined lets the server pick a model for the mode
+  const [selectedModelId, setSelectedModelId] = useState<string | undefined>(undefined)
   const [uploadedImage, setUploadedImage] = useState<string | null>(null)
-  const [maskData, setMaskData] = useState<string | null>(null)
+  // Job that produced `uploadedImage` when it was restored from history
+  const [sourceJobId, setSourceJobId] = useState<string | null>(null)
+  const [maskData, setMaskData] = useState<Blob | null>(null)
+  // The mask is uploaded when an edit is submitted, not on every stroke
+  const [isUploadingMask, setIsUploadingMask] = useState(false)
+  // Attestation for the current photo in modes that require consent
+  const [consentAttested, setConsentAttested] = useState(false)
   const [showMobileControls, setShowMobileControls] = useState(false)
 
   const isMobile = useMobile()
   const { addToast } = useToast()
-
-  const { activeJobs, completedJobs, isGenerating, startGeneration, startEditing, cancelJob, clearCompletedJobs } =
-    useJobManager()
+  const { models } = useModels()
+  const { masks: savedMasks, saveMask, deleteMask } = useSavedMasks()
+
+  const {
+    activeJobs,
+    completedJobs,
+    failedJobs,
+    isGenerating,
+    startGeneration,
+    startEditing,
+    cancelJob,
+    retryJob,
+    dismissFailedJob,
+    clearCompletedJobs,
+  } = useJobManager()
+  const queuedJobs = [...activeJobs, ...failedJobs]
+
+  // Consent covers one photo in one mode; ask again when either changes
+  const consentPolicy = uploadedImage ? findMode(selectedMode)?.requiresConsent : undefined
+  useEffect(() => {
+    setConsentAttested(false)
+  }, [uploadedImage, selectedMode])
 
   // Get the most recent active job for progressive display
   const currentJob = activeJobs.length > 0 ? activeJobs[activeJobs.length - 1] : null
@@ -70,6 +102,7 @@ export function GenerationWorkspace() {
       size: selectedModeData.recommendedSize,
       aspectRatio: selectedModeData.defaultAspect,
       strength: selectedModeData.strengthDefault,
+      modelId: selectedModelId,
     }
 
     try {
@@ -79,7 +112,7 @@ export function GenerationWorkspace() {
     } catch (error) {
       console.error("Generation failed:", error)
     }
-  }, [prompt, negativePrompt, selectedMode, startGeneration, addToast, isMobile])
+  }, [prompt, negativePrompt, selectedMode, selectedModelId, startGeneration, addToast, isMobile])
 
   const handleEdit = useCallback(async () => {
     if (!uploadedImage || !maskData || !prompt.trim()) {
@@ -95,6 +128,35 @@ export function GenerationWorkspace() {
     const selectedModeData = (modes as Mode[]).find((m) => m.id === selectedMode)
     if (!selectedModeData) return
 
+    if (selectedModeData.requiresConsent && !consentAttested) {
+      addToast({
+        type: "warning",
+        title: "Consent required",
+        message: "Please confirm you have consent to edit the people in this photo",
+        duration: 4000,
+      })
+      return
+    }
+
+    // Send the mask by URL to keep the edit request small
+    let maskUrl: string
+    setIsUploadingMask(true)
+    try {
+      maskUrl = await uploadFile(maskData, "mask.png", { category: "masks" })
+    } catch (error) {
+      addToast({
+        type: "error",
+        title: "Mask upload failed",
+        message: error instanceof Error ? error.message : "Failed to upload mask",
+        duration: 5000,
+      })
+      return
+    } finally {
+      setIsUploadingMask(false)
+    }
+    // Keep the mask for more attempts at this image
+    saveMask(uploadedImage, maskData)
+
     const params: EditParams = {
       prompt,
       negativePrompt: negativePrompt || undefined,
@@ -102,8 +164,13 @@ export function GenerationWorkspace() {
       size: selectedModeData.recommendedSize,
       aspectRatio: selectedModeData.defaultAspect,
       strength: selectedModeData.strengthDefault,
+      modelId: selectedModelId,
       imageUrl: uploadedImage,
-      maskUrl: maskData,
+      maskUrl,
+      parentJobId: sourceJobId || undefined,
+      consent: selectedModeData.requiresConsent
+        ? { attested: true, version: selectedModeData.requiresConsent.version }
+        : undefined,
     }
 
     try {
@@ -113,7 +180,20 @@ export function GenerationWorkspace() {
     } catch (error) {
       console.error("Editing failed:", error)
     }
-  }, [uploadedImage, maskData, prompt, negativePrompt, selectedMode, startEditing, addToast, isMobile])
+  }, [
+    uploadedImage,
+    maskData,
+    sourceJobId,
+    prompt,
+    negativePrompt,
+    selectedMode,
+    selectedModelId,
+    consentAttested,
+    saveMask,
+    startEditing,
+    addToast,
+    isMobile,
+  ])
 
   const handleModeSelect = useCallback(
     (mode: Mode) => {
@@ -130,6 +210,8 @@ export function GenerationWorkspace() {
   const handleFileUpload = useCallback(
     (file: File, url: string) => {
       setUploadedImage(url)
+      setSourceJobId(null)
+      setMaskData(null)
       setWorkspaceMode("mask") // Switch to masking mode
       addToast({
         type: "success",
@@ -142,9 +224,11 @@ export function GenerationWorkspace() {
   )
 
   const handleJobRestore = useCallback(
-    (job: any) => {
+    (job: Job) => {
       if (job.finalUrl) {
         setUploadedImage(job.finalUrl)
+        setSourceJobId(job.jobId)
+        setMaskData(null)
         setWorkspaceMode("generate")
         addToast({
           type: "info",
@@ -163,7 +247,18 @@ export function GenerationWorkspace() {
         return <UploadDropzone onFileUpload={handleFileUpload} className="h-full" />
 
       case "mask":
-        return <MaskBrush imageUrl={uploadedImage || undefined} onMaskChange={setMaskData} className="h-full" />
+        return (
+          <MaskBrush
+            imageUrl={uploadedImage || undefined}
+            onMaskChange={setMaskData}
+            // The editor unmounts between edits; it picks up the mask it last exported
+            initialMask={maskData}
+            savedMasks={savedMasks.filter((mask) => mask.imageUrl === uploadedImage)}
+            onSaveMask={(mask) => uploadedImage && saveMask(uploadedImage, mask)}
+            onDeleteMask={deleteMask}
+            className="h-full"
+          />
+        )
 
       case "history":
         return (
@@ -195,18 +290,31 @@ export function GenerationWorkspace() {
     <div className="space-y-6">
       <ModesSelector selectedMode={selectedMode} onModeSelect={handleModeSelect} />
 
+      {consentPolicy && (
+        <ConsentAttestation
+          statement={consentPolicy.statement}
+          checked={consentAttested}
+          onChange={setConsentAttested}
+        />
+      )}
+
       <PromptInput
         prompt={prompt}
         negativePrompt={negativePrompt}
         onPromptChange={setPrompt}
         onNegativePromptChange={setNegativePrompt}
         onGenerate={workspaceMode === "mask" ? handleEdit : handleGenerate}
-        isGenerating={isGenerating}
+        isGenerating={isGenerating || isUploadingMask}
         selectedPreset={selectedPreset}
         onPresetChange={setSelectedPreset}
+        models={models}
+        selectedModelId={selectedModelId}
+        onModelChange={setSelectedModelId}
       />
 
-      {activeJobs.length > 0 && <JobQueue jobs={activeJobs} onCancel={cancelJob} />}
+      {queuedJobs.length > 0 && (
+        <JobQueue jobs={queuedJobs} onCancel={cancelJob} onRetry={retryJob} onDismiss={dismissFailedJob} />
+      )}
     </div>
   )
 
@@ -231,7 +339,7 @@ export function GenerationWorkspace() {
                   link.click()
                 }
               }}
-              isGenerating={isGenerating}
+              isGenerating={isGenerating || isUploadingMask}
               canDownload={!!currentImage}
               className="w-full"
             />
@@ -274,7 +382,7 @@ export function GenerationWorkspace() {
                   link.click()
                 }
               }}
-              isGenerating={isGenerating}
+              isGenerating={isGenerating || isUploadingMask}
               canDownload={!!currentImage}
             />
           </div>
@@ -282,18 +390,31 @@ export function GenerationWorkspace() {
           <div className="flex-1 overflow-y-auto p-6 space-y-6">
             <ModesSelector selectedMode={selectedMode} onModeSelect={handleModeSelect} />
 
+            {consentPolicy && (
+              <ConsentAttestation
+                statement={consentPolicy.statement}
+                checked={consentAttested}
+                onChange={setConsentAttested}
+              />
+            )}
+
             <PromptInput
               prompt={prompt}
               negativePrompt={negativePrompt}
               onPromptChange={setPrompt}
               onNegativePromptChange={setNegativePrompt}
               onGenerate={workspaceMode === "mask" ? handleEdit : handleGenerate}
-              isGenerating={isGenerating}
+              isGenerating={isGenerating || isUploadingMask}
               selectedPreset={selectedPreset}
               onPresetChange={setSelectedPreset}
+              models={models}
+              selectedModelId={selectedModelId}
+              onModelChange={setSelectedModelId}
             />
 
-            {activeJobs.length > 0 && <JobQueue jobs={activeJobs} onCancel={cancelJob} />}
+            {queuedJobs.length > 0 && (
+              <JobQueue jobs={queuedJobs} onCancel={cancelJob} onRetry={retryJob} onDismiss={dismissFailedJob} />
+            )}
           </div>
         </div>
       )}
@@ -1,7 +1,7 @@
 "use client"
 
 import { motion, AnimatePresence } from "framer-motion"
-import { Clock, X, AlertCircle, CheckCircle, Loader } from "lucide-react"
+import { Clock, X, AlertCircle, CheckCircle, Loader, RotateCw, Dices } from "lucide-react"
 import { Button } from "./ui/button"
 import { ProgressIndicator } from "./ProgressIndicator"
 import type { Job } from "../types"
@@ -9,10 +9,12 @@ import type { Job } from "../types"
 interface JobQueueProps {
   jobs: Job[]
   onCancel?: (jobId: string) => void
+  onRetry?: (jobId: string, options?: { keepSeed?: boolean }) => void
+  onDismiss?: (jobId: string) => void
   className?: string
 }
 
-export function JobQueue({ jobs, onCancel, className = "" }: JobQueueProps) {
+export function JobQueue({ jobs, onCancel, onRetry, onDismiss, className = "" }: JobQueueProps) {
   if (jobs.length === 0) return null
 
   const getStatusIcon = (status: Job["status"]) => {
@@ -32,10 +34,10 @@ export function JobQueue({ jobs, onCancel, className = "" }: JobQueueProps) {
     }
   }
 
-  const getStatusText = (status: Job["status"]) => {
-    switch (status) {
+  const getStatusText = (job: Job) => {
+    switch (job.status) {
       case "pending":
-        return "Queued"
+        return job.queuePosition ? `Queued · ${formatOrdinal(job.queuePosition)} in line` : "Queued"
       case "processing":
         return "Generating"
       case "completed":
@@ -52,7 +54,7 @@ export function JobQueue({ jobs, onCancel, className = "" }: JobQueueProps) {
   return (
     <div className={`space-y-3 ${className}`}>
       <div className="flex items-center justify-between">
-        <h3 className="text-sm font-medium">Active Jobs ({jobs.length})</h3>
+        <h3 className="text-sm font-medium">Jobs ({jobs.length})</h3>
       </div>
 
       <AnimatePresence>
@@ -68,7 +70,7 @@ export function JobQueue({ jobs, onCancel, className = "" }: JobQueueProps) {
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center space-x-2">
                 {getStatusIcon(job.status)}
-                <span className="text-sm font-medium">{getStatusText(job.status)}</span>
+                <span className="text-sm font-medium">{getStatusText(job)}</span>
                 <span className="text-xs text-text-muted">#{job.jobId.slice(-8)}</span>
               </div>
 
@@ -82,6 +84,18 @@ export function JobQueue({ jobs, onCancel, className = "" }: JobQueueProps) {
                   <X className="w-4 h-4" />
                 </Button>
               )}
+
+              {job.status === "failed" && onDismiss && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDismiss(job.jobId)}
+                  className="h-8 w-8 p-0 text-text-muted"
+                  aria-label="Dismiss failed job"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
             </div>
 
             {/* Progress for active jobs */}
@@ -101,6 +115,20 @@ export function JobQueue({ jobs, onCancel, className = "" }: JobQueueProps) {
               </div>
             )}
 
+            {/* Retry actions for failed jobs */}
+            {job.status === "failed" && onRetry && (
+              <div className="mt-3 flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={() => onRetry(job.jobId)}>
+                  <RotateCw className="w-4 h-4 mr-2" />
+                  Retry
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onRetry(job.jobId, { keepSeed: false })}>
+                  <Dices className="w-4 h-4 mr-2" />
+                  New seed
+                </Button>
+              </div>
+            )}
+
             {/* Job metadata */}
             <div className="mt-3 flex items-center justify-between text-xs text-text-muted">
               <span>Model: {job.modelId}</span>
@@ -112,3 +140,19 @@ export function JobQueue({ jobs, onCancel, className = "" }: JobQueueProps) {
     </div>
   )
 }
+
+function formatOrdinal(n: number): string {
+  const lastTwo = n % 100
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`
+
+  switch (n % 10) {
+    case 1:
+      return `${n}st`
+    case 2:
+      return `${n}nd`
+    case 3:
+      return `${n}rd`
+    default:
+      return `${n}th`
+  }
+}
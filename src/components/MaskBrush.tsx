@@ -2,56 +2,291 @@
 
 import type React from "react"
 
-import { useRef, useEffect, useState, useCallback } from "react"
-import { Brush, Eraser, Undo, RotateCcw, Download, Minus, Plus } from "lucide-react"
+import { useRef, useEffect, useLayoutEffect, useState, useCallback } from "react"
+import {
+  Brush,
+  Eraser,
+  Undo,
+  Redo,
+  RotateCcw,
+  Download,
+  Minus,
+  Plus,
+  PaintBucket,
+  Contrast,
+  Square,
+  Circle,
+  Lasso,
+  Pentagon,
+  SquarePlus,
+  SquareMinus,
+  Wand,
+  SlidersHorizontal,
+  Hand,
+  ZoomIn,
+  ZoomOut,
+  Maximize,
+  Upload,
+  Save,
+  Layers,
+  X,
+} from "lucide-react"
 import { Button } from "./ui/button"
 import { Slider } from "./ui/slider"
 import { useToast } from "./Toasts"
-import { createMaskFromCanvas } from "../utils/imageUtils"
+import { useMaskHistory } from "../hooks/useMaskHistory"
+import { useMagicWand } from "../hooks/useMagicWand"
+import { useMaskRefinement } from "../hooks/useMaskRefinement"
+import { useMaskViewport, type MaskView } from "../hooks/useMaskViewport"
+import { NO_REFINEMENT, isRefined, type MaskRefinement } from "../utils/maskRefinement"
+import type { SavedMask } from "../types"
+import {
+  applyOperation,
+  canvasToBlob,
+  createBoxShape,
+  createMaskCanvas,
+  createPolygonShape,
+  createStroke,
+  clearStrokeLayer,
+  drawDabs,
+  fillShape,
+  getContext2D,
+  isMaskEmpty,
+  isShapeEmpty,
+  isSoftStroke,
+  placeDabs,
+  readMaskImage,
+  readMaskPixels,
+  replayOperations,
+  traceShape,
+  type MaskBrushSettings,
+  type MaskOperation,
+  type MaskPoint,
+  type MaskShape,
+  type SelectionMode,
+} from "../utils/maskUtils"
 
 interface MaskBrushProps {
   imageUrl?: string
-  onMaskChange?: (maskDataUrl: string) => void
+  // Opaque PNG at the image's native resolution, black and white unless feathered,
+  // or null when the mask is empty
+  onMaskChange?: (mask: Blob | null) => void
+  // Mask to start from, such as the one last exported before the editor was closed
+  initialMask?: Blob | null
+  // Masks saved for this image, shown for loading back into the editor
+  savedMasks?: SavedMask[]
+  onSaveMask?: (mask: Blob) => void
+  onDeleteMask?: (id: string) => void
   className?: string
 }
 
-interface Point {
-  x: number
-  y: number
-  pressure?: number
+type MaskTool = "brush" | "eraser" | "rectangle" | "ellipse" | "lasso" | "polygon" | "wand" | "hand"
+
+const TOOLS: { id: MaskTool; label: string; icon: typeof Brush }[] = [
+  { id: "brush", label: "Brush", icon: Brush },
+  { id: "eraser", label: "Eraser", icon: Eraser },
+  { id: "rectangle", label: "Rectangle selection", icon: Square },
+  { id: "ellipse", label: "Ellipse selection", icon: Circle },
+  { id: "lasso", label: "Lasso selection", icon: Lasso },
+  { id: "polygon", label: "Polygon selection (click to place points)", icon: Pentagon },
+  { id: "wand", label: "Magic wand (select similar colors)", icon: Wand },
+  { id: "hand", label: "Hand (or hold Space)", icon: Hand },
+]
+
+const TOOL_INSTRUCTIONS: Record<MaskTool, string> = {
+  brush: "Paint over areas you want to add to the mask.",
+  eraser: "Paint over areas you want to remove from the mask.",
+  rectangle: "Drag to select a rectangle.",
+  ellipse: "Drag to select an ellipse.",
+  lasso: "Drag around an area to select it freehand.",
+  polygon:
+    "Click to place points; click the first point, double-click or press Enter to close. Backspace removes the last point and Escape cancels.",
+  wand: "Click a color to select similar pixels. Raise the tolerance to include more shades.",
+  hand: "Drag to move around the image.",
+}
+
+// Refinement sliders, in image pixels
+const REFINEMENT_SLIDERS: {
+  key: "feather" | "grow" | "minSpeckArea"
+  label: string
+  min: number
+  max: number
+  step: number
+  unit: string
+}[] = [
+  { key: "feather", label: "Feather", min: 0, max: 50, step: 1, unit: "px" },
+  { key: "grow", label: "Grow / shrink", min: -50, max: 50, step: 1, unit: "px" },
+  { key: "minSpeckArea", label: "Remove specks under", min: 0, max: 2000, step: 10, unit: "px²" },
+]
+
+// Clicking within this many CSS pixels of a polygon's first point closes it
+const POLYGON_CLOSE_DISTANCE = 10
+
+// A touch only starts drawing once it has moved this many CSS pixels or been
+// held this many milliseconds, so a second finger can still turn it into a pinch
+const TOUCH_SLOP = 8
+const TOUCH_DELAY = 120
+
+// Zoom buttons step by this factor
+const ZOOM_STEP = 1.5
+
+// Controls that Space activates, so it only pans when none of them has focus
+const SPACE_ACTIVATED =
+  "button, input, select, textarea, a[href], [contenteditable='true'], [role='button'], [role='checkbox'], [role='slider'], [role='switch']"
+
+// Input captured since the pointer went down, turned into an operation when it is done
+type Draft =
+  | {
+      kind: "stroke"
+      points: MaskPoint[]
+      brush: MaskBrushSettings
+      isEraser: boolean
+      // Curve segments already drawn on the live layer, and the distance since the last dab
+      drawnSegments: number
+      travelled: number
+    }
+  | {
+      kind: "box"
+      shape: "rectangle" | "ellipse"
+      start: MaskPoint
+      end: MaskPoint
+      // Shift held: square or circle
+      constrain: boolean
+      mode: SelectionMode
+    }
+  | { kind: "lasso"; points: MaskPoint[]; mode: SelectionMode }
+  // Stays open across clicks; cursor is the rubber-band point under the pointer
+  | { kind: "polygon"; points: MaskPoint[]; cursor: MaskPoint | null; mode: SelectionMode }
+
+// Back to a transparent layer; strokes turn it into a blended coverage layer
+function resetLiveLayer(canvas: HTMLCanvasElement | null) {
+  if (!canvas) return
+  canvas.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height)
+  canvas.style.mixBlendMode = ""
+  canvas.style.opacity = ""
 }
 
-interface Stroke {
-  points: Point[]
-  brushSize: number
-  isEraser: boolean
+// Pen pressure, or undefined for a mouse and for touch screens that report none
+function getPressure(e: PointerEvent | React.PointerEvent): number | undefined {
+  if (e.pointerType === "pen") return e.pressure
+  if (e.pointerType === "touch" && e.pressure > 0 && e.pressure !== 0.5) return e.pressure
+  return undefined
 }
 
-export function MaskBrush({ imageUrl, onMaskChange, className = "" }: MaskBrushProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
+// The middle of the pointers and, with two or more, the distance between the first two
+function getGesturePosition(pointers: Map<number, { x: number; y: number }>) {
+  const points = [...pointers.values()]
+  const x = points.reduce((sum, point) => sum + point.x, 0) / points.length
+  const y = points.reduce((sum, point) => sum + point.y, 0) / points.length
+  const distance = points.length > 1 ? Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y) : 0
+  return { x, y, distance }
+}
+
+function getDraftShape(draft: Exclude<Draft, { kind: "stroke" }>, includeCursor = true): MaskShape {
+  switch (draft.kind) {
+    case "box":
+      return createBoxShape(draft.shape, draft.start, draft.end, draft.constrain)
+    case "lasso":
+      return createPolygonShape(draft.points)
+    case "polygon":
+      return createPolygonShape(includeCursor && draft.cursor ? [...draft.points, draft.cursor] : draft.points)
+  }
+}
+
+export function MaskBrush({
+  imageUrl,
+  onMaskChange,
+  initialMask,
+  savedMasks = [],
+  onSaveMask,
+  onDeleteMask,
+  className = "",
+}: MaskBrushProps) {
+  // Committed operations live on one canvas; the stroke being painted is drawn
+  // on a second canvas on top, so pointer moves never replay the history
+  const committedCanvasRef = useRef<HTMLCanvasElement>(null)
+  const liveCanvasRef = useRef<HTMLCanvasElement>(null)
+  // Shows the refined mask in place of the committed layer while refinements are set
+  const refinedCanvasRef = useRef<HTMLCanvasElement>(null)
+  // The mask as last exported, refinements included
+  const exportedMaskRef = useRef<HTMLCanvasElement | null>(null)
   const imageRef = useRef<HTMLImageElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Restored once, when the first image has loaded
+  const initialMaskRef = useRef(initialMask)
+  const cursorRef = useRef<HTMLDivElement>(null)
+  // Pointers down on the canvas, in client coordinates
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>())
+  // A touch that has not started drawing yet, as it may become a pinch
+  const pendingTouchRef = useRef<{ pointerId: number; point: MaskPoint; x: number; y: number; time: number } | null>(
+    null,
+  )
+  // Panning or pinching: the view and pointer position when it started
+  const gestureRef = useRef<{ view: MaskView; x: number; y: number; distance: number } | null>(null)
+  // Pointer input is kept out of React state and drawn once per animation frame
+  const draftRef = useRef<Draft | null>(null)
+  const frameRef = useRef<number | null>(null)
+  // What the committed canvas currently shows, to apply new operations incrementally
+  const renderedRef = useRef<{ base: HTMLCanvasElement | null; lastOperation: MaskOperation | null }>({
+    base: null,
+    lastOperation: null,
+  })
+  // Soft or translucent strokes and masks loaded with gray values leave gray
+  // in the mask, so it is no longer exported as black and white. Kept for the
+  // image, as the history may have flattened them into its base.
+  const hasSoftContentRef = useRef(false)
 
-  const [isDrawing, setIsDrawing] = useState(false)
   const [brushSize, setBrushSize] = useState(20)
-  const [isEraser, setIsEraser] = useState(false)
-  const [strokes, setStrokes] = useState<Stroke[]>([])
-  const [currentStroke, setCurrentStroke] = useState<Point[]>([])
+  // Percentages, turned into 0-1 brush settings when a stroke starts
+  const [hardness, setHardness] = useState(100)
+  const [opacity, setOpacity] = useState(100)
+  const [tool, setTool] = useState<MaskTool>("brush")
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>("add")
+  // Magic wand: how different a color may be (0-100) and whether matches must touch the clicked pixel
+  const [tolerance, setTolerance] = useState(32)
+  const [contiguous, setContiguous] = useState(true)
+  // Operations are in image pixels; the canvases are the image's native size, scaled down by CSS
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 })
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 })
   const [imageLoaded, setImageLoaded] = useState(false)
+  const [hasMask, setHasMask] = useState(false)
+  // Applied to the whole mask on export, after every operation
+  const [refinement, setRefinement] = useState<MaskRefinement>(NO_REFINEMENT)
+  const [isPreviewRefined, setIsPreviewRefined] = useState(false)
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false)
+  const [isPanning, setIsPanning] = useState(false)
 
   const { addToast } = useToast()
+  const history = useMaskHistory(imageSize)
+  const { base, done, push, undo, redo, reset } = history
+  const wand = useMagicWand(imageUrl, tool === "wand")
+  const refine = useMaskRefinement()
+  const { view, fit, zoomBy, transformFrom } = useMaskViewport(containerRef, canvasSize)
+
+  const isEraser = tool === "eraser"
+  const isBrushTool = tool === "brush" || tool === "eraser"
+  const isHandMode = tool === "hand" || isSpaceHeld
 
   // Initialize canvas when image loads
   useEffect(() => {
-    if (imageUrl && imageRef.current && canvasRef.current) {
+    const committedCanvas = committedCanvasRef.current
+    const liveCanvas = liveCanvasRef.current
+    const refinedCanvas = refinedCanvasRef.current
+    if (imageUrl && imageRef.current && committedCanvas && liveCanvas && refinedCanvas) {
       const img = imageRef.current
-      const canvas = canvasRef.current
+      const canvases = [committedCanvas, liveCanvas, refinedCanvas]
 
       img.onload = () => {
         const container = containerRef.current
         if (!container) return
 
+        // Operations from a previous image would land in the wrong place
+        reset()
+        draftRef.current = null
+        hasSoftContentRef.current = false
+        setRefinement(NO_REFINEMENT)
+
         const containerRect = container.getBoundingClientRect()
         const aspectRatio = img.naturalWidth / img.naturalHeight
 
@@ -65,175 +300,643 @@ export function MaskBrush({ imageUrl, onMaskChange, className = "" }: MaskBrushP
           canvasHeight = canvasWidth / aspectRatio
         }
 
-        canvas.width = canvasWidth
-        canvas.height = canvasHeight
+        // Resizing clears the canvases, so the committed layer is redrawn from scratch
+        canvases.forEach((canvas) => {
+          canvas.width = img.naturalWidth
+          canvas.height = img.naturalHeight
+        })
+        replayOperations(getContext2D(canvases[0]), null, [])
+        renderedRef.current = { base: null, lastOperation: null }
 
+        setImageSize({ width: img.naturalWidth, height: img.naturalHeight })
         setCanvasSize({ width: canvasWidth, height: canvasHeight })
         setImageLoaded(true)
-
-        // Draw initial transparent mask
-        const ctx = canvas.getContext("2d")
-        if (ctx) {
-          ctx.clearRect(0, 0, canvasWidth, canvasHeight)
-          ctx.fillStyle = "rgba(0, 0, 0, 0)"
-          ctx.fillRect(0, 0, canvasWidth, canvasHeight)
-        }
       }
 
       img.src = imageUrl
     }
-  }, [imageUrl])
+  }, [imageUrl, reset])
 
-  // Redraw canvas when strokes change
+  // Every image starts fitted to the editor
   useEffect(() => {
-    if (!canvasRef.current || !imageLoaded) return
+    fit()
+  }, [imageSize, fit])
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    }
+  }, [])
+
+  // Bring the committed layer up to date before the browser paints, so a
+  // finished stroke never flickers between the two layers
+  useLayoutEffect(() => {
+    const canvas = committedCanvasRef.current
+    if (!canvas || !imageLoaded) return
 
-    const canvas = canvasRef.current
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    // A new operation on top of what is shown (pushed or redone) is drawn on
+    // its own; flattening old operations into the base does not change the picture
+    const rendered = renderedRef.current
+    const lastOperation = done[done.length - 1] ?? null
+    const previous = done.length > 1 ? done[done.length - 2] : null
+    const isAppend =
+      lastOperation !== null &&
+      (previous !== null
+        ? previous === rendered.lastOperation
+        : rendered.lastOperation === null && base === rendered.base)
 
-    // Set up for mask drawing
-    ctx.lineCap = "round"
-    ctx.lineJoin = "round"
+    if (isAppend) {
+      applyOperation(ctx, lastOperation)
+    } else {
+      replayOperations(ctx, base, done)
+    }
+    renderedRef.current = { base, lastOperation }
 
-    // Draw all strokes
-    strokes.forEach((stroke) => {
-      if (stroke.points.length < 2) return
+    // The finished stroke is now part of the committed layer
+    if (!draftRef.current) resetLiveLayer(liveCanvasRef.current)
+  }, [base, done, imageLoaded])
 
-      ctx.globalCompositeOperation = stroke.isEraser ? "destination-out" : "source-over"
-      ctx.strokeStyle = stroke.isEraser ? "rgba(0, 0, 0, 1)" : "rgba(255, 255, 255, 0.8)"
-      ctx.lineWidth = stroke.brushSize
+  // Export the mask once per operation or refinement change, not on every
+  // pointer move. Refinements run in a worker on the thresholded mask.
+  useEffect(() => {
+    const canvas = committedCanvasRef.current
+    if (!canvas || !imageLoaded) return
 
-      ctx.beginPath()
-      ctx.moveTo(stroke.points[0].x, stroke.points[0].y)
+    let cancelled = false
+    const exportMask = async () => {
+      const { width, height } = canvas
+      const isSoft =
+        done.some((operation) => operation.type === "stroke" && isSoftStroke(operation.stroke)) ||
+        done.some((operation) => operation.type === "replace" && !operation.isBinary) ||
+        (base !== null && hasSoftContentRef.current)
+      let values = readMaskPixels(canvas, !isSoft)
+      const isPainted = !isMaskEmpty(values)
+      setHasMask(isPainted)
+
+      const refined = isRefined(refinement)
+      if (refined && isPainted) values = await refine(values, width, height, refinement)
+      if (cancelled) return
 
-      for (let i = 1; i < stroke.points.length; i++) {
-        const point = stroke.points[i]
-        ctx.lineTo(point.x, point.y)
+      const mask = isMaskEmpty(values) ? null : createMaskCanvas(values, width, height)
+      exportedMaskRef.current = mask
+
+      const preview = refinedCanvasRef.current
+      if (refined && preview) {
+        replayOperations(getContext2D(preview), mask, [])
       }
+      setIsPreviewRefined(refined)
 
-      ctx.stroke()
+      if (!onMaskChange) return
+      const blob = mask && (await canvasToBlob(mask))
+      if (!cancelled) onMaskChange(blob)
+    }
+
+    exportMask().catch((error) => {
+      if (!cancelled) console.error("Failed to export mask:", error)
     })
 
-    // Draw current stroke
-    if (currentStroke.length > 1) {
-      ctx.globalCompositeOperation = isEraser ? "destination-out" : "source-over"
-      ctx.strokeStyle = isEraser ? "rgba(0, 0, 0, 1)" : "rgba(255, 255, 255, 0.8)"
-      ctx.lineWidth = brushSize
+    return () => {
+      cancelled = true
+    }
+  }, [base, done, imageLoaded, refinement, refine, onMaskChange])
 
-      ctx.beginPath()
-      ctx.moveTo(currentStroke[0].x, currentStroke[0].y)
+  // Draws the draft onto the live layer: new stroke segments since the last
+  // frame, or the whole selection outline
+  const renderDraft = useCallback(() => {
+    frameRef.current = null
+    const draft = draftRef.current
+    const canvas = liveCanvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!draft || !canvas || !ctx) return
 
-      for (let i = 1; i < currentStroke.length; i++) {
-        const point = currentStroke[i]
-        ctx.lineTo(point.x, point.y)
-      }
+    if (draft.kind === "stroke") {
+      // The last segment waits for the next point, which decides how it curves
+      const ready = Math.max(draft.drawnSegments, draft.points.length - 2)
+      const { dabs, travelled } = placeDabs(
+        draft.points,
+        draft.brush.size,
+        draft.drawnSegments,
+        ready,
+        draft.travelled,
+      )
+      drawDabs(ctx, dabs, draft.brush.hardness, draft.isEraser)
+      draft.drawnSegments = ready
+      draft.travelled = travelled
+      return
+    }
+
+    // Preview the selection as it will be applied, with a dashed black and
+    // white outline that shows over both painted and unpainted areas
+    const shape = getDraftShape(draft)
+    const scale = canvas.width / canvas.getBoundingClientRect().width
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    fillShape(ctx, shape, draft.mode)
 
+    ctx.lineWidth = 1.5 * scale
+    ctx.setLineDash([6 * scale, 6 * scale])
+    for (const [i, color] of ["#fff", "#000"].entries()) {
+      ctx.strokeStyle = color
+      ctx.lineDashOffset = i * 6 * scale
+      ctx.beginPath()
+      traceShape(ctx, shape)
       ctx.stroke()
     }
+    ctx.setLineDash([])
+  }, [])
 
-    // Notify parent of mask changes
-    if (onMaskChange && strokes.length > 0) {
-      const maskDataUrl = createMaskFromCanvas(canvas)
-      onMaskChange(maskDataUrl)
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(renderDraft)
     }
-  }, [strokes, currentStroke, brushSize, isEraser, imageLoaded, onMaskChange])
+  }, [renderDraft])
+
+  // Image pixels per CSS pixel, so the brush keeps its on-screen size
+  const getDisplayScale = useCallback(() => {
+    const canvas = liveCanvasRef.current
+    if (!canvas) return 1
+    return canvas.width / canvas.getBoundingClientRect().width
+  }, [])
 
-  const getPointFromEvent = useCallback((e: React.MouseEvent | React.TouchEvent): Point => {
-    const canvas = canvasRef.current
+  const getPointFromEvent = useCallback((e: PointerEvent | React.PointerEvent): MaskPoint => {
+    const canvas = liveCanvasRef.current
     if (!canvas) return { x: 0, y: 0 }
 
     const rect = canvas.getBoundingClientRect()
-    const scaleX = canvas.width / rect.width
-    const scaleY = canvas.height / rect.height
-
-    if ("touches" in e) {
-      const touch = e.touches[0] || e.changedTouches[0]
-      return {
-        x: (touch.clientX - rect.left) * scaleX,
-        y: (touch.clientY - rect.top) * scaleY,
-        pressure: (touch as any).force || 1,
-      }
-    } else {
-      return {
-        x: (e.clientX - rect.left) * scaleX,
-        y: (e.clientY - rect.top) * scaleY,
-        pressure: 1,
-      }
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+      pressure: getPressure(e),
     }
   }, [])
 
+  // Pushes a finished selection; stray clicks and tiny drags are dropped
+  const commitSelection = useCallback(() => {
+    const draft = draftRef.current
+    if (!draft || draft.kind === "stroke") return
+
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    frameRef.current = null
+    draftRef.current = null
+
+    const shape = getDraftShape(draft, false)
+    if (isShapeEmpty(shape)) {
+      resetLiveLayer(liveCanvasRef.current)
+      return
+    }
+    // The live layer is cleared once the selection is committed
+    push({ type: "shape", shape, mode: draft.mode })
+  }, [push])
+
+  const cancelDraft = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    frameRef.current = null
+    draftRef.current = null
+    resetLiveLayer(liveCanvasRef.current)
+  }, [])
+
+  useEffect(() => {
+    if (wand.error) {
+      addToast({ type: "error", title: "Magic wand unavailable", message: wand.error, duration: 5000 })
+    }
+  }, [wand.error, addToast])
+
+  // Selects similar colors around the clicked point in the worker, then
+  // commits the result like any other selection
+  const selectSimilar = useCallback(
+    async (point: MaskPoint) => {
+      if (!wand.isReady || wand.isSelecting) return
+
+      const mode = selectionMode
+      try {
+        const region = await wand.select(point.x, point.y, { tolerance, contiguous })
+        // The image may have changed while the worker was busy
+        if (region.width !== imageSize.width || region.height !== imageSize.height) return
+        if (region.runs.length > 0) push({ type: "region", region, mode })
+      } catch (error) {
+        console.error("Magic wand selection failed:", error)
+      }
+    },
+    [wand, selectionMode, tolerance, contiguous, imageSize, push],
+  )
+
+  // Switching tools abandons a half-placed polygon
+  useEffect(() => {
+    cancelDraft()
+  }, [tool, cancelDraft])
+
   const startDrawing = useCallback(
-    (e: React.MouseEvent | React.TouchEvent) => {
-      e.preventDefault()
-      setIsDrawing(true)
-      const point = getPointFromEvent(e)
-      setCurrentStroke([point])
+    (point: MaskPoint, shiftKey: boolean) => {
+      switch (tool) {
+        case "brush":
+        case "eraser": {
+          draftRef.current = {
+            kind: "stroke",
+            points: [point],
+            brush: { size: brushSize * getDisplayScale(), hardness: hardness / 100, opacity: opacity / 100 },
+            isEraser,
+            drawnSegments: 0,
+            travelled: Infinity,
+          }
+
+          // The stroke is drawn as coverage and blended the way it will be committed
+          const canvas = liveCanvasRef.current
+          if (!canvas) return
+          clearStrokeLayer(getContext2D(canvas), isEraser)
+          canvas.style.mixBlendMode = isEraser ? "multiply" : "screen"
+          canvas.style.opacity = String(opacity / 100)
+          break
+        }
+
+        case "rectangle":
+        case "ellipse":
+          draftRef.current = {
+            kind: "box",
+            shape: tool,
+            start: point,
+            end: point,
+            constrain: shiftKey,
+            mode: selectionMode,
+          }
+          break
+
+        case "lasso":
+          draftRef.current = { kind: "lasso", points: [point], mode: selectionMode }
+          break
+
+        case "wand":
+          selectSimilar(point)
+          return
+
+        case "polygon": {
+          const draft = draftRef.current
+          if (draft?.kind !== "polygon") {
+            draftRef.current = { kind: "polygon", points: [point], cursor: point, mode: selectionMode }
+            break
+          }
+
+          // Clicking the first point closes the polygon
+          const first = draft.points[0]
+          const closeDistance = POLYGON_CLOSE_DISTANCE * getDisplayScale()
+          if (draft.points.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) <= closeDistance) {
+            commitSelection()
+            return
+          }
+          draft.points.push(point)
+          draft.cursor = point
+          break
+        }
+
+        case "hand":
+          return
+      }
+
+      scheduleDraw()
     },
-    [getPointFromEvent],
+    [
+      getDisplayScale,
+      scheduleDraw,
+      commitSelection,
+      selectSimilar,
+      tool,
+      brushSize,
+      hardness,
+      opacity,
+      isEraser,
+      selectionMode,
+    ],
   )
 
   const draw = useCallback(
-    (e: React.MouseEvent | React.TouchEvent) => {
-      if (!isDrawing) return
+    (e: React.PointerEvent) => {
+      const draft = draftRef.current
+      if (!draft || !e.isPrimary) return
       e.preventDefault()
 
       const point = getPointFromEvent(e)
-      setCurrentStroke((prev) => [...prev, point])
+      switch (draft.kind) {
+        case "stroke":
+        case "lasso":
+          // Pens report moves faster than frames; the browser batches the extra ones
+          for (const event of e.nativeEvent.getCoalescedEvents?.() ?? [e.nativeEvent]) {
+            draft.points.push(getPointFromEvent(event))
+          }
+          break
+        case "box":
+          draft.end = point
+          draft.constrain = e.shiftKey
+          break
+        case "polygon":
+          draft.cursor = point
+          break
+      }
+      scheduleDraw()
     },
-    [isDrawing, getPointFromEvent],
+    [getPointFromEvent, scheduleDraw],
   )
 
   const stopDrawing = useCallback(() => {
-    if (!isDrawing || currentStroke.length === 0) return
+    const draft = draftRef.current
+    if (!draft) return
 
-    setIsDrawing(false)
+    // Polygons stay open until they are closed
+    if (draft.kind === "polygon") return
+    if (draft.kind !== "stroke") {
+      commitSelection()
+      return
+    }
 
-    // Add completed stroke to strokes array
-    const newStroke: Stroke = {
-      points: currentStroke,
-      brushSize,
-      isEraser,
+    // The committed stroke replaces the live one, which is cleared once it is drawn
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    frameRef.current = null
+    draftRef.current = null
+
+    if (isSoftStroke(draft.brush)) hasSoftContentRef.current = true
+    push({ type: "stroke", stroke: createStroke(draft.points, draft.brush, draft.isEraser) })
+  }, [commitSelection, push])
+
+  // Restarts a pan or pinch from the current view, whenever a pointer is added or lifted
+  const startGesture = useCallback(() => {
+    gestureRef.current = { view, ...getGesturePosition(pointersRef.current) }
+    setIsPanning(true)
+  }, [view])
+
+  // The brush outline follows mice and pens at the size the brush paints on screen
+  const moveBrushCursor = useCallback((e: React.PointerEvent) => {
+    const cursor = cursorRef.current
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!cursor || !rect) return
+
+    cursor.style.display = e.pointerType === "touch" ? "none" : "block"
+    cursor.style.left = `${e.clientX - rect.left}px`
+    cursor.style.top = `${e.clientY - rect.top}px`
+  }, [])
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const isPan = e.button === 1 || (e.button === 0 && isHandMode)
+      if (e.button !== 0 && !isPan) return
+      e.preventDefault()
+      // Preventing the default also stops the browser moving focus here, and
+      // Space only pans while the editor has focus
+      containerRef.current?.focus({ preventScroll: true })
+      // Keep receiving moves when the pointer leaves the canvas mid-drag
+      e.currentTarget.setPointerCapture(e.pointerId)
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+
+      // Pointers added to a pan or pinch join it
+      if (isPan || gestureRef.current) {
+        startGesture()
+        return
+      }
+
+      if (e.pointerType === "touch") {
+        if (pointersRef.current.size > 1) {
+          // A second finger pinches; a stroke already under way is kept
+          pendingTouchRef.current = null
+          if (draftRef.current?.kind !== "polygon") stopDrawing()
+          startGesture()
+          return
+        }
+        pendingTouchRef.current = {
+          pointerId: e.pointerId,
+          point: getPointFromEvent(e),
+          x: e.clientX,
+          y: e.clientY,
+          time: e.timeStamp,
+        }
+        return
+      }
+
+      if (e.isPrimary) startDrawing(getPointFromEvent(e), e.shiftKey)
+    },
+    [isHandMode, startGesture, stopDrawing, getPointFromEvent, startDrawing],
+  )
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      moveBrushCursor(e)
+      if (pointersRef.current.has(e.pointerId)) {
+        pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+      }
+
+      const gesture = gestureRef.current
+      if (gesture) {
+        const position = getGesturePosition(pointersRef.current)
+        const factor = gesture.distance > 0 && position.distance > 0 ? position.distance / gesture.distance : 1
+        transformFrom(gesture.view, gesture, position, factor)
+        return
+      }
+
+      const pending = pendingTouchRef.current
+      if (pending?.pointerId === e.pointerId) {
+        const moved = Math.hypot(e.clientX - pending.x, e.clientY - pending.y)
+        if (moved < TOUCH_SLOP && e.timeStamp - pending.time < TOUCH_DELAY) return
+        pendingTouchRef.current = null
+        startDrawing(pending.point, false)
+      }
+
+      draw(e)
+    },
+    [moveBrushCursor, transformFrom, startDrawing, draw],
+  )
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      pointersRef.current.delete(e.pointerId)
+
+      if (gestureRef.current) {
+        if (pointersRef.current.size > 0) {
+          startGesture()
+        } else {
+          gestureRef.current = null
+          setIsPanning(false)
+        }
+        return
+      }
+
+      // A touch lifted before it started drawing is a tap: a dot, a polygon point or a wand click
+      const pending = pendingTouchRef.current
+      if (pending?.pointerId === e.pointerId) {
+        pendingTouchRef.current = null
+        startDrawing(pending.point, false)
+      }
+      stopDrawing()
+    },
+    [startGesture, startDrawing, stopDrawing],
+  )
+
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent) => {
+      if (pendingTouchRef.current?.pointerId === e.pointerId) pendingTouchRef.current = null
+      handlePointerUp(e)
+    },
+    [handlePointerUp],
+  )
+
+  const handlePointerLeave = useCallback(() => {
+    if (cursorRef.current) cursorRef.current.style.display = "none"
+
+    const draft = draftRef.current
+    if (draft?.kind === "polygon") {
+      // Drop the rubber band while the pointer is outside
+      draft.cursor = null
+      scheduleDraw()
+      return
+    }
+    stopDrawing()
+  }, [scheduleDraw, stopDrawing])
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo and Space pans; text fields keep their own keys
+  useEffect(() => {
+    if (!imageLoaded) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea, [contenteditable='true']")) return
+
+      // Holding Space pans with any tool while focus is in the editor, except
+      // on its buttons and sliders; elsewhere Space keeps its usual meaning
+      if (e.code === "Space") {
+        if (!target || !containerRef.current?.contains(target) || target.matches(SPACE_ACTIVATED)) return
+        e.preventDefault()
+        setIsSpaceHeld(true)
+        return
+      }
+
+      // Enter closes a polygon, Escape abandons it and Backspace removes its last point
+      const draft = draftRef.current
+      if (draft?.kind === "polygon") {
+        if (e.key === "Enter") {
+          e.preventDefault()
+          commitSelection()
+        } else if (e.key === "Escape") {
+          e.preventDefault()
+          cancelDraft()
+        } else if (e.key === "Backspace") {
+          e.preventDefault()
+          draft.points.pop()
+          if (draft.points.length === 0) cancelDraft()
+          else scheduleDraw()
+        }
+        return
+      }
+
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || draft) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || (key === "y" && e.ctrlKey)) {
+        e.preventDefault()
+        redo()
+      }
     }
 
-    setStrokes((prev) => [...prev, newStroke])
-    setCurrentStroke([])
-  }, [isDrawing, currentStroke, brushSize, isEraser])
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") setIsSpaceHeld(false)
+    }
+    // The key up is lost when the window loses focus while Space is held
+    const handleBlur = () => setIsSpaceHeld(false)
 
-  const undoLastStroke = useCallback(() => {
-    if (strokes.length === 0) return
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
+    }
+  }, [imageLoaded, undo, redo, commitSelection, cancelDraft, scheduleDraw])
 
-    setStrokes((prev) => prev.slice(0, -1))
+  const clearMask = useCallback(() => {
+    push({ type: "clear" })
     addToast({
       type: "info",
-      title: "Stroke undone",
-      message: "Last brush stroke has been removed",
+      title: "Mask cleared",
+      message: "Press Undo to bring it back",
       duration: 2000,
     })
-  }, [strokes.length, addToast])
+  }, [push, addToast])
 
-  const clearMask = useCallback(() => {
-    setStrokes([])
-    setCurrentStroke([])
+  // Loads a mask into the editor as one undoable step. Files are converted to
+  // black and white; saved masks come back as they were exported, so their
+  // refinements are already applied.
+  const loadMask = useCallback(
+    async (blob: Blob, source: "file" | "saved") => {
+      try {
+        const { values, width, height } = await readMaskImage(blob, source === "file")
+        if (width !== imageSize.width || height !== imageSize.height) {
+          addToast({
+            type: "error",
+            title: "Mask size doesn't match",
+            message: `The mask is ${width} × ${height} but the image is ${imageSize.width} × ${imageSize.height}`,
+            duration: 5000,
+          })
+          return
+        }
+
+        const isBinary = values.every((value) => value === 0 || value === 255)
+        if (!isBinary) hasSoftContentRef.current = true
+        if (source === "saved") setRefinement(NO_REFINEMENT)
+        push({ type: "replace", mask: createMaskCanvas(values, width, height), isBinary })
+      } catch (error) {
+        console.error("Failed to load mask:", error)
+        addToast({
+          type: "error",
+          title: "Mask import failed",
+          message: "The file could not be read as an image",
+          duration: 5000,
+        })
+      }
+    },
+    [imageSize, push, addToast],
+  )
+
+  useEffect(() => {
+    const mask = initialMaskRef.current
+    if (!imageLoaded || !mask) return
+    initialMaskRef.current = null
+    loadMask(mask, "saved")
+  }, [imageLoaded, loadMask])
+
+  const handleImportFile = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0]
+      // Picking the same file again should import it again
+      e.target.value = ""
+      if (file) loadMask(file, "file")
+    },
+    [loadMask],
+  )
+
+  const saveMask = useCallback(async () => {
+    const mask = exportedMaskRef.current
+    if (!mask || !onSaveMask) return
+
+    onSaveMask(await canvasToBlob(mask))
     addToast({
-      type: "info",
-      title: "Mask cleared",
-      message: "All brush strokes have been removed",
+      type: "success",
+      title: "Mask saved",
+      message: "Reuse it for other edits of this image",
       duration: 2000,
     })
-  }, [addToast])
+  }, [onSaveMask, addToast])
 
-  const downloadMask = useCallback(() => {
-    if (!canvasRef.current) return
+  const downloadMask = useCallback(async () => {
+    // The same mask that is sent with edits, refinements included
+    const mask = exportedMaskRef.current
+    if (!mask) return
 
-    const canvas = canvasRef.current
+    const url = URL.createObjectURL(await canvasToBlob(mask))
     const link = document.createElement("a")
     link.download = `mask-${Date.now()}.png`
-    link.href = canvas.toDataURL()
+    link.href = url
     link.click()
+    URL.revokeObjectURL(url)
 
     addToast({
       type: "success",
@@ -243,6 +946,12 @@ export function MaskBrush({ imageUrl, onMaskChange, className = "" }: MaskBrushP
     })
   }, [addToast])
 
+  // The brush tools show their own outline instead
+  let canvasCursor = "cursor-crosshair"
+  if (isHandMode) canvasCursor = isPanning ? "cursor-grabbing" : "cursor-grab"
+  else if (isBrushTool) canvasCursor = "cursor-none"
+  else if (wand.isSelecting) canvasCursor = "cursor-wait"
+
   if (!imageUrl) {
     return (
       <div className={`text-center py-8 ${className}`}>
@@ -255,121 +964,400 @@ export function MaskBrush({ imageUrl, onMaskChange, className = "" }: MaskBrushP
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Brush Controls */}
-      <div className="flex items-center justify-between p-4 bg-background-surface border border-border-default rounded-lg">
-        <div className="flex items-center space-x-4">
-          {/* Brush/Eraser Toggle */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-background-surface border border-border-default rounded-lg">
+        <div className="flex flex-wrap items-center gap-4">
+          {/* Tools */}
           <div className="flex items-center space-x-2">
-            <Button
-              variant={!isEraser ? "default" : "outline"}
-              size="sm"
-              onClick={() => setIsEraser(false)}
-              className="h-10 w-10 p-0"
-            >
-              <Brush className="w-4 h-4" />
-            </Button>
-            <Button
-              variant={isEraser ? "default" : "outline"}
-              size="sm"
-              onClick={() => setIsEraser(true)}
-              className="h-10 w-10 p-0"
-            >
-              <Eraser className="w-4 h-4" />
-            </Button>
+            {TOOLS.map(({ id, label, icon: Icon }) => (
+              <Button
+                key={id}
+                variant={tool === id ? "default" : "outline"}
+                size="sm"
+                onClick={() => setTool(id)}
+                title={label}
+                aria-label={label}
+                className="h-10 w-10 p-0"
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+            ))}
           </div>
 
+          {/* Selection Mode */}
+          {!isBrushTool && tool !== "hand" && (
+            <div className="flex items-center space-x-2">
+              <Button
+                variant={selectionMode === "add" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectionMode("add")}
+                title="Add to mask"
+                aria-label="Add to mask"
+                className="h-8 w-8 p-0"
+              >
+                <SquarePlus className="w-4 h-4" />
+              </Button>
+              <Button
+                variant={selectionMode === "subtract" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectionMode("subtract")}
+                title="Subtract from mask"
+                aria-label="Subtract from mask"
+                className="h-8 w-8 p-0"
+              >
+                <SquareMinus className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
+          {/* Magic Wand Options */}
+          {tool === "wand" && (
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-text-muted">Tolerance</span>
+              <div className="w-24">
+                <Slider
+                  value={[tolerance]}
+                  onValueChange={(value) => setTolerance(value[0])}
+                  min={0}
+                  max={100}
+                  step={1}
+                  className="w-full"
+                />
+              </div>
+              <span className="text-sm text-text-muted min-w-[3ch]">{tolerance}</span>
+              <label className="flex items-center space-x-2 text-sm text-text-muted cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={contiguous}
+                  onChange={(e) => setContiguous(e.target.checked)}
+                  className="h-4 w-4 accent-brand-primary"
+                />
+                <span>Contiguous</span>
+              </label>
+              {!wand.isReady && !wand.error && <span className="text-xs text-text-muted">Preparing image…</span>}
+            </div>
+          )}
+
           {/* Brush Size */}
-          <div className="flex items-center space-x-3">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setBrushSize(Math.max(5, brushSize - 5))}
-              className="h-8 w-8 p-0"
-            >
-              <Minus className="w-3 h-3" />
-            </Button>
+          {isBrushTool && (
+            <div className="flex items-center space-x-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBrushSize(Math.max(5, brushSize - 5))}
+                className="h-8 w-8 p-0"
+              >
+                <Minus className="w-3 h-3" />
+              </Button>
 
-            <div className="w-24">
-              <Slider
-                value={[brushSize]}
-                onValueChange={(value) => setBrushSize(value[0])}
-                min={5}
-                max={100}
-                step={5}
-                className="w-full"
-              />
+              <div className="w-24">
+                <Slider
+                  value={[brushSize]}
+                  onValueChange={(value) => setBrushSize(value[0])}
+                  min={5}
+                  max={100}
+                  step={5}
+                  className="w-full"
+                />
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBrushSize(Math.min(100, brushSize + 5))}
+                className="h-8 w-8 p-0"
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+
+              <span className="text-sm text-text-muted min-w-[3ch]">{brushSize}px</span>
             </div>
+          )}
 
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setBrushSize(Math.min(100, brushSize + 5))}
-              className="h-8 w-8 p-0"
-            >
-              <Plus className="w-3 h-3" />
-            </Button>
+          {/* Hardness and Opacity */}
+          {isBrushTool && (
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-text-muted">Hardness</span>
+              <div className="w-20">
+                <Slider
+                  value={[hardness]}
+                  onValueChange={(value) => setHardness(value[0])}
+                  min={0}
+                  max={100}
+                  step={5}
+                  className="w-full"
+                />
+              </div>
+              <span className="text-sm text-text-muted min-w-[4ch]">{hardness}%</span>
 
-            <span className="text-sm text-text-muted min-w-[3ch]">{brushSize}px</span>
-          </div>
+              <span className="text-sm text-text-muted">Opacity</span>
+              <div className="w-20">
+                <Slider
+                  value={[opacity]}
+                  onValueChange={(value) => setOpacity(value[0])}
+                  min={5}
+                  max={100}
+                  step={5}
+                  className="w-full"
+                />
+              </div>
+              <span className="text-sm text-text-muted min-w-[4ch]">{opacity}%</span>
+            </div>
+          )}
         </div>
 
         {/* Action Buttons */}
         <div className="flex items-center space-x-2">
-          <Button variant="outline" size="sm" onClick={undoLastStroke} disabled={strokes.length === 0}>
-            <Undo className="w-4 h-4 mr-2" />
-            Undo
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={undo}
+            disabled={!history.canUndo}
+            title="Undo (Ctrl+Z)"
+            className="h-8 w-8 p-0"
+          >
+            <Undo className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={redo}
+            disabled={!history.canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="h-8 w-8 p-0"
+          >
+            <Redo className="w-4 h-4" />
           </Button>
-          <Button variant="outline" size="sm" onClick={clearMask} disabled={strokes.length === 0}>
+          <Button variant="outline" size="sm" onClick={() => push({ type: "fill" })}>
+            <PaintBucket className="w-4 h-4 mr-2" />
+            Fill
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => push({ type: "invert" })}>
+            <Contrast className="w-4 h-4 mr-2" />
+            Invert
+          </Button>
+          <Button variant="outline" size="sm" onClick={clearMask} disabled={!hasMask}>
             <RotateCcw className="w-4 h-4 mr-2" />
             Clear
           </Button>
-          <Button variant="outline" size="sm" onClick={downloadMask} disabled={strokes.length === 0}>
+          <Button variant="outline" size="sm" onClick={downloadMask} disabled={!hasMask}>
             <Download className="w-4 h-4 mr-2" />
             Download
           </Button>
         </div>
       </div>
 
+      {/* Refinements */}
+      <div className="flex flex-wrap items-center gap-4 p-4 bg-background-surface border border-border-default rounded-lg">
+        <div className="flex items-center space-x-2 text-sm font-medium text-text-high">
+          <SlidersHorizontal className="w-4 h-4" />
+          <span>Refine</span>
+        </div>
+
+        {REFINEMENT_SLIDERS.map(({ key, label, min, max, step, unit }) => (
+          <div key={key} className="flex items-center space-x-3">
+            <span className="text-sm text-text-muted">{label}</span>
+            <div className="w-24">
+              <Slider
+                value={[refinement[key]]}
+                onValueChange={(value) => setRefinement((current) => ({ ...current, [key]: value[0] }))}
+                min={min}
+                max={max}
+                step={step}
+                className="w-full"
+              />
+            </div>
+            <span className="text-sm text-text-muted min-w-[6ch]">
+              {refinement[key]}
+              {unit}
+            </span>
+          </div>
+        ))}
+
+        <label className="flex items-center space-x-2 text-sm text-text-muted cursor-pointer">
+          <input
+            type="checkbox"
+            checked={refinement.fillHoles}
+            onChange={(e) => setRefinement((current) => ({ ...current, fillHoles: e.target.checked }))}
+            className="h-4 w-4 accent-brand-primary"
+          />
+          <span>Fill holes</span>
+        </label>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRefinement(NO_REFINEMENT)}
+          disabled={!isRefined(refinement)}
+        >
+          Reset
+        </Button>
+      </div>
+
+      {/* Saved Masks */}
+      <div className="flex flex-wrap items-center gap-3 p-4 bg-background-surface border border-border-default rounded-lg">
+        <div className="flex items-center space-x-2 text-sm font-medium text-text-high">
+          <Layers className="w-4 h-4" />
+          <span>Masks</span>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/png,image/jpeg,image/webp"
+          onChange={handleImportFile}
+          className="hidden"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!imageLoaded}
+          title="Import a mask image: white or transparent areas are changed"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+        {onSaveMask && (
+          <Button variant="outline" size="sm" onClick={saveMask} disabled={!hasMask}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        )}
+
+        {savedMasks.map((mask) => (
+          <div key={mask.id} className="relative">
+            <button
+              type="button"
+              onClick={() => loadMask(mask.blob, "saved")}
+              title={`Load mask saved at ${mask.createdAt.toLocaleTimeString()}`}
+              aria-label="Load saved mask"
+              className="block h-12 w-12 overflow-hidden rounded border border-border-default bg-black hover:border-brand-primary"
+            >
+              <img src={mask.previewUrl} alt="Saved mask" className="h-full w-full object-contain" />
+            </button>
+            {onDeleteMask && (
+              <button
+                type="button"
+                onClick={() => onDeleteMask(mask.id)}
+                title="Delete saved mask"
+                aria-label="Delete saved mask"
+                className="absolute -top-1.5 -right-1.5 rounded-full bg-background-surface border border-border-default p-0.5 text-text-muted hover:text-text-high"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        {onSaveMask && savedMasks.length === 0 && (
+          <span className="text-xs text-text-muted">Saved masks and masks used for edits appear here.</span>
+        )}
+      </div>
+
       {/* Canvas Container */}
       <div
         ref={containerRef}
-        className="relative bg-background-surface border border-border-default rounded-lg overflow-hidden"
+        tabIndex={0}
+        role="region"
+        aria-label="Mask editor"
+        className="relative bg-background-surface border border-border-default rounded-lg overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-primary"
         style={{ minHeight: "400px" }}
       >
-        {/* Background Image */}
-        <img
-          ref={imageRef}
-          src={imageUrl || "/placeholder.svg"}
-          alt="Image to mask"
-          className="absolute inset-0 w-full h-full object-contain opacity-70"
-          style={{ pointerEvents: "none" }}
-        />
+        {/* Zoom Controls */}
+        {imageLoaded && (
+          <div className="absolute top-4 right-4 z-10 flex gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => zoomBy(ZOOM_STEP)}
+              title="Zoom in (Ctrl+scroll)"
+              aria-label="Zoom in"
+              className="bg-background-surface/90 backdrop-blur-sm"
+            >
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => zoomBy(1 / ZOOM_STEP)}
+              title="Zoom out (Ctrl+scroll)"
+              aria-label="Zoom out"
+              className="bg-background-surface/90 backdrop-blur-sm"
+            >
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={fit}
+              title="Fit to view"
+              aria-label="Fit to view"
+              className="bg-background-surface/90 backdrop-blur-sm"
+            >
+              <Maximize className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
 
-        {/* Mask Canvas */}
-        <canvas
-          ref={canvasRef}
-          className="absolute inset-0 cursor-crosshair touch-manipulation"
+        {/* Image and mask, zoomed and panned together */}
+        <div
+          className="absolute left-0 top-0"
           style={{
             width: canvasSize.width,
             height: canvasSize.height,
-            maxWidth: "100%",
-            maxHeight: "100%",
-            margin: "auto",
-            display: imageLoaded ? "block" : "none",
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            transformOrigin: "0 0",
           }}
-          onMouseDown={startDrawing}
-          onMouseMove={draw}
-          onMouseUp={stopDrawing}
-          onMouseLeave={stopDrawing}
-          onTouchStart={startDrawing}
-          onTouchMove={draw}
-          onTouchEnd={stopDrawing}
-        />
+        >
+          {/* Background Image */}
+          <img
+            ref={imageRef}
+            src={imageUrl || "/placeholder.svg"}
+            alt="Image to mask"
+            className="absolute inset-0 w-full h-full object-contain opacity-70 select-none"
+            style={{ pointerEvents: "none" }}
+          />
 
-        {/* Brush Cursor */}
-        {imageLoaded && (
+          {/* Mask Canvases */}
           <div
+            className="absolute inset-0"
+            // The mask is opaque black and white; screen blending shows only the white areas
+            style={{
+              mixBlendMode: "screen",
+              opacity: 0.8,
+              isolation: "isolate",
+              display: imageLoaded ? "block" : "none",
+            }}
+          >
+            <canvas
+              ref={committedCanvasRef}
+              className="absolute inset-0 w-full h-full"
+              style={{ visibility: isPreviewRefined ? "hidden" : "visible" }}
+            />
+            <canvas
+              ref={refinedCanvasRef}
+              className="absolute inset-0 w-full h-full"
+              style={{ visibility: isPreviewRefined ? "visible" : "hidden" }}
+            />
+            <canvas
+              ref={liveCanvasRef}
+              className={`absolute inset-0 w-full h-full touch-none ${canvasCursor}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerCancel}
+              onPointerLeave={handlePointerLeave}
+              onDoubleClick={commitSelection}
+            />
+          </div>
+        </div>
+
+        {/* Brush Cursor: the brush keeps its on-screen size at any zoom */}
+        {imageLoaded && isBrushTool && !isHandMode && (
+          <div
+            ref={cursorRef}
             className="brush-cursor pointer-events-none"
             style={{
+              display: "none",
               width: `${brushSize}px`,
               height: `${brushSize}px`,
               borderColor: isEraser ? "#ef4444" : "#6366f1",
@@ -378,6 +1366,13 @@ export function MaskBrush({ imageUrl, onMaskChange, className = "" }: MaskBrushP
           />
         )}
 
+        {/* Zoom Level */}
+        {imageLoaded && (
+          <div className="absolute bottom-4 left-4 bg-background-surface/90 backdrop-blur-sm rounded px-3 py-1 text-xs text-text-muted">
+            {imageSize.width} × {imageSize.height} • {Math.round(view.scale * 100)}%
+          </div>
+        )}
+
         {/* Loading State */}
         {!imageLoaded && (
           <div className="absolute inset-0 flex items-center justify-center">
@@ -389,9 +1384,15 @@ export function MaskBrush({ imageUrl, onMaskChange, className = "" }: MaskBrushP
       {/* Instructions */}
       <div className="text-xs text-text-muted bg-background-elevated p-3 rounded-lg">
         <p className="mb-1">
-          <strong>Instructions:</strong> Paint over areas you want to {isEraser ? "remove from" : "add to"} the mask.
+          <strong>Instructions:</strong> {TOOL_INSTRUCTIONS[tool]}
+        </p>
+        <p>
+          Brush and selections add to the mask; the eraser and subtract mode remove from it. Hold Shift while dragging a
+          rectangle or ellipse for a square or circle. Pen pressure sets the stroke width, and softer or translucent
+          brushes paint partial mask values. Zoom with Ctrl+scroll or by pinching, and pan by scrolling, holding Space or
+          dragging with two fingers. Undo with Ctrl+Z and redo with Ctrl+Shift+Z. Refinements apply to
+          the whole mask, in image pixels, and are kept as you keep painting.
         </p>
-        <p>Use brush tool to add to mask, eraser tool to remove. Adjust brush size with the slider or +/- buttons.</p>
       </div>
     </div>
   )
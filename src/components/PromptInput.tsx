@@ -2,12 +2,12 @@
 
 import { useState, useRef, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { ChevronDown, ChevronUp, Sparkles, X, Copy, Wand2 } from "lucide-react"
+import { ChevronDown, ChevronUp, Sparkles, X, Copy, Wand2, Cpu, Check } from "lucide-react"
 import { Button } from "./ui/button"
 import { Textarea } from "./ui/textarea"
 import { useToast } from "./Toasts"
 import presets from "../config/presets.json"
-import type { Preset } from "../types"
+import type { ModelInfo, Preset } from "../types"
 
 interface PromptInputProps {
   prompt: string
@@ -18,6 +18,10 @@ interface PromptInputProps {
   isGenerating?: boolean
   selectedPreset?: string
   onPresetChange?: (presetId: string) => void
+  models?: ModelInfo[]
+  // Undefined lets the server route by mode
+  selectedModelId?: string
+  onModelChange?: (modelId: string | undefined) => void
   className?: string
 }
 
@@ -32,6 +36,16 @@ const quickPrompts = [
   "dramatic lighting",
 ]
 
+function formatCost(pricing: ModelInfo["pricing"]): string {
+  if (!pricing) return "Free"
+  const amount = new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: pricing.currency,
+    maximumFractionDigits: 3,
+  }).format(pricing.costPerImage)
+  return `${amount} / image`
+}
+
 export function PromptInput({
   prompt,
   negativePrompt,
@@ -41,15 +55,20 @@ export function PromptInput({
   isGenerating = false,
   selectedPreset,
   onPresetChange,
+  models = [],
+  selectedModelId,
+  onModelChange,
   className = "",
 }: PromptInputProps) {
   const [showNegativePrompt, setShowNegativePrompt] = useState(false)
   const [showPresets, setShowPresets] = useState(false)
+  const [showModels, setShowModels] = useState(false)
   const promptRef = useRef<HTMLTextAreaElement>(null)
   const { addToast } = useToast()
 
   const typedPresets = presets as Preset[]
   const currentPreset = typedPresets.find((p) => p.id === selectedPreset)
+  const currentModel = models.find((m) => m.id === selectedModelId)
 
   // Auto-resize textarea
   useEffect(() => {
@@ -78,6 +97,11 @@ export function PromptInput({
     })
   }
 
+  const handleModelSelect = (modelId: string | undefined) => {
+    onModelChange?.(modelId)
+    setShowModels(false)
+  }
+
   const handleCopyPrompt = () => {
     navigator.clipboard.writeText(prompt)
     addToast({
@@ -146,6 +170,57 @@ export function PromptInput({
         </AnimatePresence>
       </div>
 
+      {/* Model Selection */}
+      {onModelChange && models.length > 0 && (
+        <div className="relative">
+          <Button variant="outline" onClick={() => setShowModels(!showModels)} className="w-full justify-between">
+            <div className="flex items-center space-x-2">
+              <Cpu className="w-4 h-4" />
+              <span>{currentModel ? currentModel.name : "Automatic model"}</span>
+            </div>
+            {showModels ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </Button>
+
+          <AnimatePresence>
+            {showModels && (
+              <motion.div
+                className="absolute top-full left-0 right-0 z-10 mt-2 bg-background-surface border border-border-default rounded-lg shadow-lg overflow-hidden"
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                transition={{ duration: 0.2 }}
+              >
+                <button
+                  onClick={() => handleModelSelect(undefined)}
+                  className="w-full px-4 py-3 text-left hover:bg-background-elevated transition-colors border-b border-border-muted"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-sm">Automatic</span>
+                    {!currentModel && <Check className="w-4 h-4 text-brand-primary" />}
+                  </div>
+                  <div className="text-xs text-text-muted mt-1">Best available model for the selected mode</div>
+                </button>
+                {models.map((model) => (
+                  <button
+                    key={model.id}
+                    onClick={() => handleModelSelect(model.id)}
+                    className="w-full px-4 py-3 text-left hover:bg-background-elevated transition-colors border-b border-border-muted last:border-b-0"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">{model.name}</span>
+                      {model.id === currentModel?.id && <Check className="w-4 h-4 text-brand-primary" />}
+                    </div>
+                    <div className="text-xs text-text-muted mt-1">
+                      {model.provider} · up to {model.capabilities.maxResolution} · {formatCost(model.pricing)}
+                    </div>
+                  </button>
+                ))}
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      )}
+
       {/* Main Prompt Input */}
       <div className="space-y-3">
         <div className="relative">
@@ -8,11 +8,15 @@ import { Upload, X, ImageIcon, AlertCircle, Check } from "lucide-react"
 import { Button } from "./ui/button"
 import { useToast } from "./Toasts"
 import { validateImageFile } from "../utils/imageUtils"
+import { uploadFile } from "../utils/uploadUtils"
 import limits from "../config/limits.json"
 
 interface UploadedFile {
   id: string
   file: File
+  // Local object URL for the thumbnail
+  previewUrl: string
+  // Stored file URL, set once the upload completes
   url: string
   status: "uploading" | "completed" | "error"
   progress: number
@@ -57,6 +61,7 @@ export function UploadDropzone({ onFileUpload, onFileRemove, maxFiles = 5, class
       const uploadedFile: UploadedFile = {
         id: fileId,
         file,
+        previewUrl: URL.createObjectURL(file),
         url: "",
         status: "uploading",
         progress: 0,
@@ -65,20 +70,12 @@ export function UploadDropzone({ onFileUpload, onFileRemove, maxFiles = 5, class
       setUploadedFiles((prev) => [...prev, uploadedFile])
 
       try {
-        // Simulate upload progress
-        const progressInterval = setInterval(() => {
-          setUploadedFiles((prev) =>
-            prev.map((f) => (f.id === fileId ? { ...f, progress: Math.min(f.progress + 10, 90) } : f)),
-          )
-        }, 100)
-
-        // Create object URL for preview
-        const url = URL.createObjectURL(file)
-
-        // Simulate upload delay
-        await new Promise((resolve) => setTimeout(resolve, 1000))
-
-        clearInterval(progressInterval)
+        // Upload through a signed URL so the server can read the file later
+        const url = await uploadFile(file, file.name, {
+          onProgress: (progress) => {
+            setUploadedFiles((prev) => prev.map((f) => (f.id === fileId ? { ...f, progress } : f)))
+          },
+        })
 
         // Update file status
         setUploadedFiles((prev) =>
@@ -94,13 +91,15 @@ export function UploadDropzone({ onFileUpload, onFileRemove, maxFiles = 5, class
           duration: 3000,
         })
       } catch (error) {
+        const message = error instanceof Error ? error.message : "Upload failed. Please try again."
+
         setUploadedFiles((prev) =>
           prev.map((f) =>
             f.id === fileId
               ? {
                   ...f,
                   status: "error",
-                  error: "Upload failed. Please try again.",
+                  error: message,
                 }
               : f,
           ),
@@ -109,7 +108,7 @@ export function UploadDropzone({ onFileUpload, onFileRemove, maxFiles = 5, class
         addToast({
           type: "error",
           title: "Upload failed",
-          message: "Please try uploading the file again",
+          message,
           duration: 5000,
         })
       }
@@ -161,8 +160,8 @@ export function UploadDropzone({ onFileUpload, onFileRemove, maxFiles = 5, class
   const handleRemoveFile = useCallback(
     (fileId: string) => {
       const file = uploadedFiles.find((f) => f.id === fileId)
-      if (file?.url) {
-        URL.revokeObjectURL(file.url)
+      if (file) {
+        URL.revokeObjectURL(file.previewUrl)
       }
 
       setUploadedFiles((prev) => prev.filter((f) => f.id !== fileId))
@@ -260,9 +259,9 @@ export function UploadDropzone({ onFileUpload, onFileRemove, maxFiles = 5, class
                 >
                   {/* File Preview */}
                   <div className="w-12 h-12 rounded-lg overflow-hidden bg-background-elevated flex-shrink-0">
-                    {file.url ? (
+                    {file.previewUrl ? (
                       <img
-                        src={file.url || "/placeholder.svg"}
+                        src={file.previewUrl || "/placeholder.svg"}
                         alt={file.file.name}
                         className="w-full h-full object-cover"
                       />
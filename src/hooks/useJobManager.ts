@@ -3,14 +3,24 @@
 import { useState, useEffect, useCallback, useRef } from "react"
 import type { Job, GenerationParams, EditParams } from "../types"
 import { useToast } from "../components/Toasts"
+import { isTerminalStatus } from "../utils/jobUtils"
+import { getApiErrorMessage } from "../utils/apiUtils"
+
+interface RetryOptions {
+  // Reuse the seed the failed job ran with (default) or let the model pick a new one
+  keepSeed?: boolean
+}
 
 interface UseJobManagerReturn {
   activeJobs: Job[]
   completedJobs: Job[]
+  failedJobs: Job[]
   isGenerating: boolean
   startGeneration: (params: GenerationParams) => Promise<string>
   startEditing: (params: EditParams) => Promise<string>
   cancelJob: (jobId: string) => Promise<boolean>
+  retryJob: (jobId: string, options?: RetryOptions) => Promise<string | null>
+  dismissFailedJob: (jobId: string) => void
   getJobStatus: (jobId: string) => Promise<Job | null>
   clearCompletedJobs: () => void
 }
@@ -18,19 +28,95 @@ interface UseJobManagerReturn {
 export function useJobManager(): UseJobManagerReturn {
   const [activeJobs, setActiveJobs] = useState<Job[]>([])
   const [completedJobs, setCompletedJobs] = useState<Job[]>([])
+  const [failedJobs, setFailedJobs] = useState<Job[]>([])
   const pollingIntervals = useRef<Map<string, NodeJS.Timeout>>(new Map())
+  const eventSources = useRef<Map<string, EventSource>>(new Map())
+  // Toast actions are created before retryJob exists, so they go through a ref
+  const retryJobRef = useRef<(jobId: string) => void>(() => {})
   const { addToast } = useToast()
 
   const isGenerating = activeJobs.some((job) => job.status === "pending" || job.status === "processing")
 
-  // Cleanup polling intervals on unmount
+  // Close event streams and polling intervals on unmount
   useEffect(() => {
     return () => {
       pollingIntervals.current.forEach((interval) => clearInterval(interval))
       pollingIntervals.current.clear()
+      eventSources.current.forEach((source) => source.close())
+      eventSources.current.clear()
     }
   }, [])
 
+  const stopWatching = useCallback((jobId: string) => {
+    const interval = pollingIntervals.current.get(jobId)
+    if (interval) {
+      clearInterval(interval)
+      pollingIntervals.current.delete(jobId)
+    }
+
+    const source = eventSources.current.get(jobId)
+    if (source) {
+      source.close()
+      eventSources.current.delete(jobId)
+    }
+  }, [])
+
+  const handleJobUpdate = useCallback(
+    (job: Job) => {
+      const { jobId } = job
+
+      // Update active jobs
+      setActiveJobs((prev) => {
+        const index = prev.findIndex((j) => j.jobId === jobId)
+        if (index === -1) return prev
+
+        const updated = [...prev]
+        updated[index] = job
+        return updated
+      })
+
+      // Move to completed if finished
+      if (isTerminalStatus(job.status)) {
+        stopWatching(jobId)
+
+        // Move to completed jobs
+        setActiveJobs((prev) => prev.filter((j) => j.jobId !== jobId))
+
+        if (job.status === "completed") {
+          setCompletedJobs((prev) => [job, ...prev])
+
+          addToast({
+            type: "success",
+            title: "Generation completed",
+            message: "Your image has been generated successfully",
+            duration: 5000,
+            action: {
+              label: "View",
+              onClick: () => {
+                // Could scroll to canvas or open gallery
+                console.log("View completed job:", jobId)
+              },
+            },
+          })
+        } else if (job.status === "failed") {
+          setFailedJobs((prev) => [job, ...prev.filter((j) => j.jobId !== jobId)])
+
+          addToast({
+            type: "error",
+            title: "Generation failed",
+            message: job.error || "An error occurred during generation",
+            duration: 8000,
+            action: {
+              label: "Retry",
+              onClick: () => retryJobRef.current(jobId),
+            },
+          })
+        }
+      }
+    },
+    [stopWatching, addToast],
+  )
+
   const pollJobStatus = useCallback(
     async (jobId: string) => {
       try {
@@ -40,72 +126,14 @@ export function useJobManager(): UseJobManagerReturn {
         }
 
         const job: Job = await response.json()
-
-        // Update active jobs
-        setActiveJobs((prev) => {
-          const index = prev.findIndex((j) => j.jobId === jobId)
-          if (index === -1) return prev
-
-          const updated = [...prev]
-          updated[index] = job
-          return updated
-        })
-
-        // Move to completed if finished
-        if (job.status === "completed" || job.status === "failed" || job.status === "cancelled") {
-          // Stop polling
-          const interval = pollingIntervals.current.get(jobId)
-          if (interval) {
-            clearInterval(interval)
-            pollingIntervals.current.delete(jobId)
-          }
-
-          // Move to completed jobs
-          setActiveJobs((prev) => prev.filter((j) => j.jobId !== jobId))
-
-          if (job.status === "completed") {
-            setCompletedJobs((prev) => [job, ...prev])
-
-            addToast({
-              type: "success",
-              title: "Generation completed",
-              message: "Your image has been generated successfully",
-              duration: 5000,
-              action: {
-                label: "View",
-                onClick: () => {
-                  // Could scroll to canvas or open gallery
-                  console.log("View completed job:", jobId)
-                },
-              },
-            })
-          } else if (job.status === "failed") {
-            addToast({
-              type: "error",
-              title: "Generation failed",
-              message: job.error || "An error occurred during generation",
-              duration: 8000,
-              action: {
-                label: "Retry",
-                onClick: () => {
-                  // Could implement retry logic
-                  console.log("Retry failed job:", jobId)
-                },
-              },
-            })
-          }
-        }
+        handleJobUpdate(job)
 
         return job
       } catch (error) {
         console.error("Error polling job status:", error)
 
         // Stop polling on error
-        const interval = pollingIntervals.current.get(jobId)
-        if (interval) {
-          clearInterval(interval)
-          pollingIntervals.current.delete(jobId)
-        }
+        stopWatching(jobId)
 
         // Remove from active jobs
         setActiveJobs((prev) => prev.filter((j) => j.jobId !== jobId))
@@ -120,7 +148,7 @@ export function useJobManager(): UseJobManagerReturn {
         return null
       }
     },
-    [addToast],
+    [handleJobUpdate, stopWatching, addToast],
   )
 
   const startPolling = useCallback(
@@ -140,6 +168,34 @@ export function useJobManager(): UseJobManagerReturn {
     [pollJobStatus],
   )
 
+  const watchJob = useCallback(
+    (jobId: string) => {
+      if (eventSources.current.has(jobId) || pollingIntervals.current.has(jobId)) return
+
+      // Push updates over SSE where supported, polling otherwise
+      if (typeof EventSource === "undefined") {
+        startPolling(jobId)
+        return
+      }
+
+      const source = new EventSource(`/api/job/${jobId}/events`)
+      eventSources.current.set(jobId, source)
+
+      source.onmessage = (event) => {
+        handleJobUpdate(JSON.parse(event.data))
+      }
+
+      source.onerror = () => {
+        // The stream dropped before the job finished; polling takes over and
+        // reports a lost connection if the job is really gone
+        source.close()
+        eventSources.current.delete(jobId)
+        startPolling(jobId)
+      }
+    },
+    [handleJobUpdate, startPolling],
+  )
+
   const startGeneration = useCallback(
     async (params: GenerationParams): Promise<string> => {
       try {
@@ -153,7 +209,7 @@ export function useJobManager(): UseJobManagerReturn {
 
         if (!response.ok) {
           const error = await response.json()
-          throw new Error(error.error || "Generation failed")
+          throw new Error(getApiErrorMessage(error, "Generation failed"))
         }
 
         const job: Job = await response.json()
@@ -161,8 +217,8 @@ export function useJobManager(): UseJobManagerReturn {
         // Add to active jobs
         setActiveJobs((prev) => [...prev, job])
 
-        // Start polling for status updates
-        startPolling(job.jobId)
+        // Subscribe to status updates
+        watchJob(job.jobId)
 
         addToast({
           type: "info",
@@ -185,7 +241,7 @@ export function useJobManager(): UseJobManagerReturn {
         throw error
       }
     },
-    [startPolling, addToast],
+    [watchJob, addToast],
   )
 
   const startEditing = useCallback(
@@ -201,7 +257,7 @@ export function useJobManager(): UseJobManagerReturn {
 
         if (!response.ok) {
           const error = await response.json()
-          throw new Error(error.error || "Editing failed")
+          throw new Error(getApiErrorMessage(error, "Editing failed"))
         }
 
         const job: Job = await response.json()
@@ -209,8 +265,8 @@ export function useJobManager(): UseJobManagerReturn {
         // Add to active jobs
         setActiveJobs((prev) => [...prev, job])
 
-        // Start polling for status updates
-        startPolling(job.jobId)
+        // Subscribe to status updates
+        watchJob(job.jobId)
 
         addToast({
           type: "info",
@@ -233,7 +289,7 @@ export function useJobManager(): UseJobManagerReturn {
         throw error
       }
     },
-    [startPolling, addToast],
+    [watchJob, addToast],
   )
 
   const cancelJob = useCallback(
@@ -247,12 +303,8 @@ export function useJobManager(): UseJobManagerReturn {
           throw new Error("Failed to cancel job")
         }
 
-        // Stop polling
-        const interval = pollingIntervals.current.get(jobId)
-        if (interval) {
-          clearInterval(interval)
-          pollingIntervals.current.delete(jobId)
-        }
+        // Stop receiving updates
+        stopWatching(jobId)
 
         // Remove from active jobs
         setActiveJobs((prev) => prev.filter((j) => j.jobId !== jobId))
@@ -276,9 +328,59 @@ export function useJobManager(): UseJobManagerReturn {
         return false
       }
     },
-    [addToast],
+    [stopWatching, addToast],
   )
 
+  const retryJob = useCallback(
+    async (jobId: string, options: RetryOptions = {}): Promise<string | null> => {
+      const { keepSeed = true } = options
+
+      // The server holds the sanitized request the job was started with
+      let job: Job
+      try {
+        const response = await fetch(`/api/job/${jobId}`)
+        if (!response.ok) {
+          throw new Error(`Failed to get job: ${response.statusText}`)
+        }
+        job = await response.json()
+      } catch (error) {
+        addToast({
+          type: "error",
+          title: "Retry failed",
+          message: "The failed job is no longer available",
+          duration: 5000,
+        })
+        return null
+      }
+
+      const params = {
+        ...job.params,
+        seed: keepSeed ? (job.resolvedSeed ?? job.params.seed) : undefined,
+        retryOfJobId: jobId,
+      }
+
+      try {
+        const newJobId =
+          job.kind === "edit" ? await startEditing(params as EditParams) : await startGeneration(params)
+
+        setFailedJobs((prev) => prev.filter((j) => j.jobId !== jobId))
+        return newJobId
+      } catch (error) {
+        // startGeneration/startEditing already reported the error
+        return null
+      }
+    },
+    [startGeneration, startEditing, addToast],
+  )
+
+  retryJobRef.current = (jobId: string) => {
+    retryJob(jobId)
+  }
+
+  const dismissFailedJob = useCallback((jobId: string) => {
+    setFailedJobs((prev) => prev.filter((j) => j.jobId !== jobId))
+  }, [])
+
   const getJobStatus = useCallback(
     async (jobId: string): Promise<Job | null> => {
       return pollJobStatus(jobId)
@@ -299,10 +401,13 @@ export function useJobManager(): UseJobManagerReturn {
   return {
     activeJobs,
     completedJobs,
+    failedJobs,
     isGenerating,
     startGeneration,
     startEditing,
     cancelJob,
+    retryJob,
+    dismissFailedJob,
     getJobStatus,
     clearCompletedJobs,
   }
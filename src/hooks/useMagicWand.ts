@@ -0,0 +1,96 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import type { MaskRegion } from "../utils/maskUtils"
+import type { MagicWandRequest, MagicWandResponse } from "../workers/magicWand.worker"
+
+interface MagicWandOptions {
+  tolerance: number
+  contiguous: boolean
+}
+
+interface UseMagicWandReturn {
+  // The worker has decoded the image and can take selections
+  isReady: boolean
+  isSelecting: boolean
+  error: string | null
+  select: (x: number, y: number, options: MagicWandOptions) => Promise<MaskRegion>
+}
+
+interface PendingSelection {
+  resolve: (region: MaskRegion) => void
+  reject: (error: Error) => void
+}
+
+// Runs magic-wand selections on `imageUrl` in a Web Worker. The worker is only
+// started while `enabled`, and decodes the image once at native resolution.
+export function useMagicWand(imageUrl: string | undefined, enabled: boolean): UseMagicWandReturn {
+  const workerRef = useRef<Worker | null>(null)
+  const pendingRef = useRef(new Map<number, PendingSelection>())
+  const nextIdRef = useRef(0)
+
+  const [isReady, setIsReady] = useState(false)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!imageUrl || !enabled) return
+
+    const worker = new Worker(new URL("../workers/magicWand.worker.ts", import.meta.url))
+    const pending = pendingRef.current
+    workerRef.current = worker
+    setIsReady(false)
+    setError(null)
+
+    worker.onmessage = (event: MessageEvent<MagicWandResponse>) => {
+      const response = event.data
+
+      if (response.type === "loaded") {
+        setIsReady(true)
+        return
+      }
+
+      const selection = response.id !== undefined ? pending.get(response.id) : undefined
+      if (response.id !== undefined) {
+        pending.delete(response.id)
+        setPendingCount(pending.size)
+      }
+
+      if (response.type === "selected") {
+        selection?.resolve({ width: response.width, height: response.height, runs: response.runs })
+      } else {
+        console.error("Magic wand error:", response.message)
+        if (selection) selection.reject(new Error(response.message))
+        else setError(response.message)
+      }
+    }
+
+    const request: MagicWandRequest = { type: "load", url: imageUrl }
+    worker.postMessage(request)
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      pending.forEach(({ reject }) => reject(new Error("Magic wand was stopped")))
+      pending.clear()
+      setPendingCount(0)
+      setIsReady(false)
+    }
+  }, [imageUrl, enabled])
+
+  const select = useCallback((x: number, y: number, options: MagicWandOptions): Promise<MaskRegion> => {
+    const worker = workerRef.current
+    if (!worker) return Promise.reject(new Error("Magic wand is not running"))
+
+    const id = nextIdRef.current++
+    return new Promise<MaskRegion>((resolve, reject) => {
+      pendingRef.current.set(id, { resolve, reject })
+      setPendingCount(pendingRef.current.size)
+
+      const request: MagicWandRequest = { type: "select", id, x, y, ...options }
+      worker.postMessage(request)
+    })
+  }, [])
+
+  return { isReady, isSelecting: pendingCount > 0, error, select }
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import { applyOperation, createCanvas, getContext2D, replayOperations, type MaskOperation } from "../utils/maskUtils"
+
+// Undo steps kept; older operations are flattened into the base snapshot
+const MAX_HISTORY = 100
+
+interface MaskHistoryState {
+  // Everything older than the undoable operations, flattened into one canvas
+  base: HTMLCanvasElement | null
+  done: MaskOperation[]
+  undone: MaskOperation[]
+}
+
+interface UseMaskHistoryReturn extends Pick<MaskHistoryState, "base" | "done"> {
+  canUndo: boolean
+  canRedo: boolean
+  push: (operation: MaskOperation) => void
+  undo: () => void
+  redo: () => void
+  reset: () => void
+}
+
+const EMPTY_HISTORY: MaskHistoryState = { base: null, done: [], undone: [] }
+
+// Undo and redo for mask edits. Every change is an operation, so clearing,
+// filling and inverting are undoable just like strokes.
+export function useMaskHistory(size: { width: number; height: number }, limit = MAX_HISTORY): UseMaskHistoryReturn {
+  const [history, setHistory] = useState<MaskHistoryState>(EMPTY_HISTORY)
+
+  const push = useCallback(
+    (operation: MaskOperation) => {
+      setHistory((prev) => {
+        const done = [...prev.done, operation]
+        if (done.length <= limit) return { base: prev.base, done, undone: [] }
+
+        // Flatten the oldest operation into a fresh snapshot; the previous one may still be on screen
+        const base = createCanvas(size.width, size.height)
+        const ctx = getContext2D(base)
+        replayOperations(ctx, prev.base, [])
+        applyOperation(ctx, done[0])
+        return { base, done: done.slice(1), undone: [] }
+      })
+    },
+    [size.width, size.height, limit],
+  )
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.done.length === 0) return prev
+      return {
+        base: prev.base,
+        done: prev.done.slice(0, -1),
+        undone: [...prev.undone, prev.done[prev.done.length - 1]],
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.undone.length === 0) return prev
+      return {
+        base: prev.base,
+        done: [...prev.done, prev.undone[prev.undone.length - 1]],
+        undone: prev.undone.slice(0, -1),
+      }
+    })
+  }, [])
+
+  const reset = useCallback(() => setHistory(EMPTY_HISTORY), [])
+
+  return {
+    base: history.base,
+    done: history.done,
+    canUndo: history.done.length > 0,
+    canRedo: history.undone.length > 0,
+    push,
+    undo,
+    redo,
+    reset,
+  }
+}
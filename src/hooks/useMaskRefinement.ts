@@ -0,0 +1,74 @@
+"use client"
+
+import { useEffect, useCallback, useRef } from "react"
+import type { MaskRefinement } from "../utils/maskRefinement"
+import type { MaskRefinementRequest, MaskRefinementResponse } from "../workers/maskRefinement.worker"
+
+type RefineMask = (mask: Uint8Array, width: number, height: number, refinement: MaskRefinement) => Promise<Uint8Array>
+
+interface RefinementJob {
+  request: MaskRefinementRequest
+  resolve: (mask: Uint8Array) => void
+  reject: (error: Error) => void
+}
+
+// Refines masks in a Web Worker, started on first use. One request runs at a
+// time; while it does, newer requests replace the queued one, so dragging a
+// slider never builds up a backlog. Replaced requests reject.
+export function useMaskRefinement(): RefineMask {
+  const workerRef = useRef<Worker | null>(null)
+  const runningRef = useRef<RefinementJob | null>(null)
+  const queuedRef = useRef<RefinementJob | null>(null)
+  const nextIdRef = useRef(0)
+
+  const start = useCallback((job: RefinementJob) => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("../workers/maskRefinement.worker.ts", import.meta.url))
+      worker.onmessage = (event: MessageEvent<MaskRefinementResponse>) => {
+        const response = event.data
+        const running = runningRef.current
+        runningRef.current = null
+
+        if (running?.request.id === response.id) {
+          if ("mask" in response) running.resolve(response.mask)
+          else running.reject(new Error(response.error))
+        }
+
+        const queued = queuedRef.current
+        queuedRef.current = null
+        if (queued) start(queued)
+      }
+      workerRef.current = worker
+    }
+
+    runningRef.current = job
+    workerRef.current.postMessage(job.request, { transfer: [job.request.mask.buffer] })
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+      for (const job of [runningRef.current, queuedRef.current]) {
+        job?.reject(new Error("Mask refinement was stopped"))
+      }
+      runningRef.current = null
+      queuedRef.current = null
+    }
+  }, [])
+
+  return useCallback<RefineMask>(
+    (mask, width, height, refinement) =>
+      new Promise<Uint8Array>((resolve, reject) => {
+        const job = { request: { id: nextIdRef.current++, mask, width, height, refinement }, resolve, reject }
+
+        if (!runningRef.current) {
+          start(job)
+          return
+        }
+        queuedRef.current?.reject(new Error("Replaced by a newer refinement"))
+        queuedRef.current = job
+      }),
+    [start],
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef, type RefObject } from "react"
+
+// Zoom limits, relative to fitting the image in the editor
+const MIN_ZOOM = 0.5
+const MAX_ZOOM = 16
+
+// Zoom factor per pixel of Ctrl+wheel scrolling
+const WHEEL_ZOOM_SPEED = 0.002
+
+// Where the content sits in the container: its top-left corner in CSS pixels,
+// and its zoom relative to the fitted size
+export interface MaskView {
+  x: number
+  y: number
+  scale: number
+}
+
+interface ClientPoint {
+  x: number
+  y: number
+}
+
+interface UseMaskViewportReturn {
+  view: MaskView
+  // Back to the whole image, centered
+  fit: () => void
+  // Zooms around a point in client coordinates, or the container's center
+  zoomBy: (factor: number, origin?: ClientPoint) => void
+  // Drags and pinches: moves `start` so that what was under `from` ends up
+  // under `to`, zoomed by `factor`
+  transformFrom: (start: MaskView, from: ClientPoint, to: ClientPoint, factor?: number) => void
+}
+
+const clampZoom = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale))
+
+// Zoom and pan for content of `size` (its fitted size in CSS pixels) inside
+// `containerRef`. Ctrl/Cmd+wheel and trackpad pinches zoom around the
+// pointer; the wheel pans once zoomed in and scrolls the page otherwise.
+export function useMaskViewport(
+  containerRef: RefObject<HTMLElement | null>,
+  size: { width: number; height: number },
+): UseMaskViewportReturn {
+  const [view, setView] = useState<MaskView>({ x: 0, y: 0, scale: 1 })
+  // The wheel listener decides whether to take over scrolling before React renders
+  const viewRef = useRef(view)
+  viewRef.current = view
+
+  const toLocal = useCallback(
+    (point: ClientPoint): ClientPoint => {
+      const rect = containerRef.current?.getBoundingClientRect()
+      return rect ? { x: point.x - rect.left, y: point.y - rect.top } : point
+    },
+    [containerRef],
+  )
+
+  const transformFrom = useCallback(
+    (start: MaskView, from: ClientPoint, to: ClientPoint, factor = 1) => {
+      const scale = clampZoom(start.scale * factor)
+      const localFrom = toLocal(from)
+      const localTo = toLocal(to)
+      setView({
+        x: localTo.x - ((localFrom.x - start.x) / start.scale) * scale,
+        y: localTo.y - ((localFrom.y - start.y) / start.scale) * scale,
+        scale,
+      })
+    },
+    [toLocal],
+  )
+
+  const zoomBy = useCallback(
+    (factor: number, origin?: ClientPoint) => {
+      const rect = containerRef.current?.getBoundingClientRect()
+      const center = origin ?? (rect ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 } : null)
+      if (center) transformFrom(viewRef.current, center, center, factor)
+    },
+    [containerRef, transformFrom],
+  )
+
+  const fit = useCallback(() => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return
+    setView({ x: (rect.width - size.width) / 2, y: (rect.height - size.height) / 2, scale: 1 })
+  }, [containerRef, size.width, size.height])
+
+  // Nothing to zoom until the content has a size
+  const hasContent = size.width > 0 && size.height > 0
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || !hasContent) return
+
+    const handleWheel = (e: WheelEvent) => {
+      // Line-based wheels (Firefox) report a few lines rather than pixels
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : 1
+
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault()
+        zoomBy(Math.exp(-e.deltaY * scale * WHEEL_ZOOM_SPEED), { x: e.clientX, y: e.clientY })
+      } else if (viewRef.current.scale > 1) {
+        e.preventDefault()
+        setView((prev) => ({ ...prev, x: prev.x - e.deltaX * scale, y: prev.y - e.deltaY * scale }))
+      }
+    }
+
+    // Passive listeners cannot stop the page from scrolling or zooming
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [containerRef, zoomBy, hasContent])
+
+  return { view, fit, zoomBy, transformFrom }
+}
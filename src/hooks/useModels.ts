@@ -0,0 +1,45 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { ModelInfo } from "../types"
+
+interface UseModelsReturn {
+  models: ModelInfo[]
+  isLoading: boolean
+  error: string | null
+}
+
+// Models registered on the server, loaded once for the model picker
+export function useModels(): UseModelsReturn {
+  const [models, setModels] = useState<ModelInfo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const loadModels = async () => {
+      try {
+        const response = await fetch("/api/models", { signal: controller.signal })
+        if (!response.ok) {
+          throw new Error(`Failed to load models: ${response.statusText}`)
+        }
+
+        const data: { models: ModelInfo[] } = await response.json()
+        setModels(data.models)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error("Failed to load models:", error)
+        setError(error instanceof Error ? error.message : "Failed to load models")
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }
+
+    loadModels()
+
+    return () => controller.abort()
+  }, [])
+
+  return { models, isLoading, error }
+}
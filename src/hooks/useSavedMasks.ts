@@ -0,0 +1,56 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import type { SavedMask } from "../types"
+
+// Oldest masks are dropped beyond this, as each holds a full-resolution PNG
+const MAX_SAVED_MASKS = 20
+
+interface UseSavedMasksReturn {
+  masks: SavedMask[]
+  // Saving the same blob again is a no-op, so repeated edits with one mask keep one entry
+  saveMask: (imageUrl: string, blob: Blob) => void
+  deleteMask: (id: string) => void
+}
+
+// Masks saved for the session, so one mask can be reused for several edit
+// attempts on the same image with different prompts
+export function useSavedMasks(): UseSavedMasksReturn {
+  const [masks, setMasks] = useState<SavedMask[]>([])
+  const masksRef = useRef(masks)
+  masksRef.current = masks
+
+  const saveMask = useCallback((imageUrl: string, blob: Blob) => {
+    if (masksRef.current.some((mask) => mask.blob === blob && mask.imageUrl === imageUrl)) return
+
+    const saved: SavedMask = {
+      id: `mask-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      imageUrl,
+      blob,
+      previewUrl: URL.createObjectURL(blob),
+      createdAt: new Date(),
+    }
+    const dropped = masksRef.current.slice(0, Math.max(0, masksRef.current.length + 1 - MAX_SAVED_MASKS))
+    dropped.forEach((mask) => URL.revokeObjectURL(mask.previewUrl))
+
+    const next = [...masksRef.current.slice(dropped.length), saved]
+    masksRef.current = next
+    setMasks(next)
+  }, [])
+
+  const deleteMask = useCallback((id: string) => {
+    const mask = masksRef.current.find((saved) => saved.id === id)
+    if (!mask) return
+
+    URL.revokeObjectURL(mask.previewUrl)
+    const next = masksRef.current.filter((saved) => saved.id !== id)
+    masksRef.current = next
+    setMasks(next)
+  }, [])
+
+  useEffect(() => {
+    return () => masksRef.current.forEach((mask) => URL.revokeObjectURL(mask.previewUrl))
+  }, [])
+
+  return { masks, saveMask, deleteMask }
+}
@@ -1,11 +1,29 @@
 import type { ModelAdapter, GenerationParams, EditParams, Job } from "../../types"
-import { generateJobId } from "../../utils/imageUtils"
+import { delay } from "../../utils/asyncUtils"
+import { generateSeed } from "../../utils/imageUtils"
 import { jobStore } from "../jobStore"
+import { ProviderError } from "../retryPolicy"
+import { providerFetch, fetchImageAsBase64, storeResultImage } from "./providerFetch"
+
+const REQUEST_TIMEOUT_MS = 30000
+const MAX_POLLS = 60
+
+interface BananaResult {
+  id: string
+  status?: "pending" | "running" | "completed" | "failed"
+  message?: string
+  modelOutputs?: {
+    image_url?: string
+  }
+}
 
 export class BananaAdapter implements ModelAdapter {
   private apiKey: string
   private modelKey: string
-  private baseUrl = "https://api.banana.dev"
+  private activeJobs: Map<string, AbortController> = new Map()
+  // Overridable so tests can point the adapter at a local stub server
+  private baseUrl = process.env.BANANA_API_BASE_URL || "https://api.banana.dev"
+  private pollIntervalMs = Number(process.env.BANANA_POLL_INTERVAL_MS) || 5000
 
   constructor() {
     this.apiKey = process.env.BANANA_API_KEY || ""
@@ -16,46 +34,12 @@ export class BananaAdapter implements ModelAdapter {
     }
   }
 
-  async generate(params: GenerationParams): Promise<Job> {
-    const jobId = generateJobId()
-
-    const job: Job = {
-      jobId,
-      status: "pending",
-      progress: 0,
-      previewUrls: [],
-      modelId: "banana-stable-diffusion",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    await jobStore.create(job)
-
-    // Start generation process
-    this.processGeneration(jobId, params)
-
-    return job
+  async generate(jobId: string, params: GenerationParams): Promise<void> {
+    await this.run(jobId, (signal) => this.processGeneration(jobId, params, signal))
   }
 
-  async edit(params: EditParams): Promise<Job> {
-    const jobId = generateJobId()
-
-    const job: Job = {
-      jobId,
-      status: "pending",
-      progress: 0,
-      previewUrls: [],
-      modelId: "banana-stable-diffusion",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    await jobStore.create(job)
-
-    // Start editing process
-    this.processEditing(jobId, params)
-
-    return job
+  async edit(jobId: string, params: EditParams): Promise<void> {
+    await this.run(jobId, (signal) => this.processEditing(jobId, params, signal))
   }
 
   async status(jobId: string): Promise<Job> {
@@ -67,117 +51,123 @@ export class BananaAdapter implements ModelAdapter {
   }
 
   async cancel(jobId: string): Promise<boolean> {
-    // TODO: Implement actual cancellation with Banana API
-    await jobStore.update(jobId, {
+    // Aborting stops polling; the Banana run itself finishes and is discarded
+    const controller = this.activeJobs.get(jobId)
+    if (controller) {
+      controller.abort()
+      this.activeJobs.delete(jobId)
+    }
+
+    const job = await jobStore.update(jobId, {
       status: "cancelled",
     })
-    return true
+    return job !== null
   }
 
-  private async processGeneration(jobId: string, params: GenerationParams) {
+  private async run(jobId: string, process: (signal: AbortSignal) => Promise<void>) {
+    const controller = new AbortController()
+    this.activeJobs.set(jobId, controller)
+
     try {
-      await jobStore.update(jobId, {
-        status: "processing",
-        progress: 10,
-      })
-
-      // TODO: Replace with actual Banana API calls
-      // Example payload structure for Banana Stable Diffusion:
-      /*
-      const payload = {
-        id: jobId,
-        created: Date.now(),
-        apiVersion: "2023-09-15",
-        modelInputs: {
-          prompt: this.buildGenerationPrompt(params),
-          negative_prompt: params.negativePrompt || "low quality, blurry, distorted",
-          width: this.parseSize(params.size).width,
-          height: this.parseSize(params.size).height,
-          num_inference_steps: 50,
-          guidance_scale: 7.5,
-          seed: params.seed || Math.floor(Math.random() * 1000000),
-          scheduler: "DPMSolverMultistepScheduler",
-          safety_check: true
-        }
-      }
+      await process(controller.signal)
+    } finally {
+      this.activeJobs.delete(jobId)
+    }
+  }
 
-      const response = await fetch(`${this.baseUrl}/start/v4/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify(payload)
-      })
+  private async processGeneration(jobId: string, params: GenerationParams, signal: AbortSignal) {
+    const seed = params.seed ?? generateSeed()
 
-      if (!response.ok) {
-        throw new Error(`Banana API error: ${response.statusText}`)
-      }
+    await jobStore.update(jobId, {
+      progress: 10,
+      resolvedSeed: seed,
+    })
 
-      const result = await response.json()
-      
-      // Poll for completion
-      await this.pollForCompletion(jobId, result.id)
-      */
-
-      // For now, simulate the process
-      setTimeout(async () => {
-        await jobStore.update(jobId, {
-          status: "completed",
-          progress: 100,
-          finalUrl: `/placeholder.svg?height=1024&width=1024&text=${encodeURIComponent("Banana Generated")}`,
-        })
-      }, 6000)
-    } catch (error) {
-      console.error("Banana generation error:", error)
-      await jobStore.update(jobId, {
-        status: "failed",
-        error: error instanceof Error ? error.message : "Generation failed",
-      })
-    }
+    const { width, height } = this.parseSize(params.size)
+    const resultUrl = await this.runModel(
+      jobId,
+      {
+        prompt: this.buildGenerationPrompt(params),
+        negative_prompt: params.negativePrompt || "low quality, blurry, distorted",
+        width,
+        height,
+        num_inference_steps: 50,
+        guidance_scale: 7.5,
+        seed,
+        scheduler: "DPMSolverMultistepScheduler",
+        safety_check: true,
+      },
+      signal,
+    )
+    const finalUrl = await storeResultImage(resultUrl, { provider: "Banana", signal })
+
+    await jobStore.update(jobId, {
+      status: "completed",
+      progress: 100,
+      finalUrl,
+    })
   }
 
-  private async processEditing(jobId: string, params: EditParams) {
-    try {
-      await jobStore.update(jobId, {
-        status: "processing",
-        progress: 15,
-      })
-
-      // TODO: Implement actual Banana inpainting API calls
-      /*
-      const payload = {
-        id: jobId,
-        created: Date.now(),
-        apiVersion: "2023-09-15",
-        modelInputs: {
-          prompt: this.buildEditingPrompt(params),
-          negative_prompt: params.negativePrompt || "low quality, blurry, distorted",
-          image: await this.imageToBase64(params.imageUrl),
-          mask_image: await this.imageToBase64(params.maskUrl),
-          strength: params.strength || 0.8,
-          num_inference_steps: 50,
-          guidance_scale: 7.5,
-          seed: params.seed || Math.floor(Math.random() * 1000000)
-        }
-      }
-      */
-
-      // Simulate editing process
-      setTimeout(async () => {
-        await jobStore.update(jobId, {
-          status: "completed",
-          progress: 100,
-          finalUrl: `/placeholder.svg?height=1024&width=1024&text=${encodeURIComponent("Banana Edited")}`,
-        })
-      }, 5000)
-    } catch (error) {
-      console.error("Banana editing error:", error)
-      await jobStore.update(jobId, {
-        status: "failed",
-        error: error instanceof Error ? error.message : "Editing failed",
-      })
+  private async processEditing(jobId: string, params: EditParams, signal: AbortSignal) {
+    const seed = params.seed ?? generateSeed()
+
+    await jobStore.update(jobId, {
+      progress: 15,
+      resolvedSeed: seed,
+    })
+
+    const [image, mask] = await Promise.all([
+      fetchImageAsBase64(params.imageUrl, { provider: "Banana", signal }),
+      fetchImageAsBase64(params.maskUrl, { provider: "Banana", signal }),
+    ])
+
+    const resultUrl = await this.runModel(
+      jobId,
+      {
+        prompt: this.buildEditingPrompt(params),
+        negative_prompt: params.negativePrompt || "low quality, blurry, distorted",
+        image: image.data,
+        mask_image: mask.data,
+        strength: params.strength || 0.8,
+        num_inference_steps: 50,
+        guidance_scale: 7.5,
+        seed,
+      },
+      signal,
+    )
+    const finalUrl = await storeResultImage(resultUrl, { provider: "Banana", signal })
+
+    await jobStore.update(jobId, {
+      status: "completed",
+      progress: 100,
+      finalUrl,
+    })
+  }
+
+  private async runModel(jobId: string, modelInputs: Record<string, unknown>, signal: AbortSignal): Promise<string> {
+    const payload = {
+      id: jobId,
+      created: Date.now(),
+      apiVersion: "2023-09-15",
+      modelKey: this.modelKey,
+      modelInputs,
     }
+
+    const result = await providerFetch<BananaResult>(
+      `${this.baseUrl}/start/v4/`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify(payload),
+      },
+      { provider: "Banana", signal, timeoutMs: REQUEST_TIMEOUT_MS },
+    )
+
+    // Poll for completion
+    return this.pollForCompletion(jobId, result, signal)
   }
 
   private buildGenerationPrompt(params: GenerationParams): string {
@@ -211,59 +201,36 @@ export class BananaAdapter implements ModelAdapter {
     return { width: width || 1024, height: height || 1024 }
   }
 
-  private async imageToBase64(imageUrl: string): Promise<string> {
-    // TODO: Implement image to base64 conversion
-    return ""
-  }
+  private async pollForCompletion(jobId: string, started: BananaResult, signal: AbortSignal): Promise<string> {
+    let result = started
 
-  private async pollForCompletion(jobId: string, bananaJobId: string) {
-    // TODO: Implement polling logic for Banana API
-    /*
-    const maxAttempts = 60 // 5 minutes max
-    let attempts = 0
+    for (let attempts = 0; attempts < MAX_POLLS; attempts++) {
+      if (result.status === "completed" && result.modelOutputs?.image_url) {
+        return result.modelOutputs.image_url
+      }
 
-    const poll = async () => {
-      try {
-        const response = await fetch(`${this.baseUrl}/check/v4/${bananaJobId}`, {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`
-          }
-        })
-
-        const result = await response.json()
-
-        if (result.status === 'completed') {
-          await jobStore.update(jobId, {
-            status: 'completed',
-            progress: 100,
-            finalUrl: result.modelOutputs.image_url
-          })
-          return
-        }
-
-        if (result.status === 'failed') {
-          throw new Error(result.message || 'Generation failed')
-        }
-
-        // Update progress
-        const progress = Math.min(90, 10 + (attempts * 2))
-        await jobStore.update(jobId, { progress })
-
-        attempts++
-        if (attempts < maxAttempts) {
-          setTimeout(poll, 5000) // Poll every 5 seconds
-        } else {
-          throw new Error('Generation timeout')
-        }
-      } catch (error) {
-        await jobStore.update(jobId, {
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Polling failed'
-        })
+      if (result.status === "failed") {
+        // Banana reports the model's own failure here; the request itself was fine
+        throw new ProviderError(result.message || "Banana generation failed")
       }
+
+      // Update progress
+      const progress = Math.min(90, 10 + attempts * 2)
+      await jobStore.update(jobId, { progress })
+
+      await delay(this.pollIntervalMs, signal)
+
+      result = await providerFetch<BananaResult>(
+        `${this.baseUrl}/check/v4/${started.id}`,
+        {
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+        },
+        { provider: "Banana", signal, timeoutMs: REQUEST_TIMEOUT_MS },
+      )
     }
 
-    poll()
-    */
+    throw new ProviderError(`Banana generation did not finish after ${MAX_POLLS} status checks`, { retryable: true })
   }
 }
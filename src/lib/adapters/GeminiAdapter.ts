@@ -1,58 +1,48 @@
 import type { ModelAdapter, GenerationParams, EditParams, Job } from "../../types"
-import { generateJobId } from "../../utils/imageUtils"
+import { generateSeed } from "../../utils/imageUtils"
 import { jobStore } from "../jobStore"
+import { ProviderError } from "../retryPolicy"
+import { providerFetch, fetchImageAsBase64, storeResultImage } from "./providerFetch"
+
+const REQUEST_TIMEOUT_MS = 120000
+
+const SAFETY_SETTINGS = [
+  {
+    category: "HARM_CATEGORY_HARASSMENT",
+    threshold: "BLOCK_MEDIUM_AND_ABOVE",
+  },
+]
+
+interface GeminiResponse {
+  candidates?: {
+    content?: {
+      parts?: { text?: string; inlineData?: { mimeType: string; data: string } }[]
+    }
+    finishReason?: string
+  }[]
+}
 
 export class GeminiAdapter implements ModelAdapter {
   private apiKey: string
-  private baseUrl = "https://generativelanguage.googleapis.com/v1beta"
+  private model: string
+  private activeJobs: Map<string, AbortController> = new Map()
+  // Overridable so tests can point the adapter at a local stub server
+  private baseUrl = process.env.GEMINI_API_BASE_URL || "https://generativelanguage.googleapis.com/v1beta"
 
   constructor() {
     this.apiKey = process.env.GEMINI_API_KEY || ""
+    this.model = process.env.GEMINI_MODEL || "gemini-2.0-flash-preview-image-generation"
     if (!this.apiKey) {
       console.warn("GEMINI_API_KEY not found. Gemini adapter will not work.")
     }
   }
 
-  async generate(params: GenerationParams): Promise<Job> {
-    const jobId = generateJobId()
-
-    const job: Job = {
-      jobId,
-      status: "pending",
-      progress: 0,
-      previewUrls: [],
-      modelId: "gemini-pro-vision",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    await jobStore.create(job)
-
-    // Start generation process
-    this.processGeneration(jobId, params)
-
-    return job
+  async generate(jobId: string, params: GenerationParams): Promise<void> {
+    await this.run(jobId, (signal) => this.processGeneration(jobId, params, signal))
   }
 
-  async edit(params: EditParams): Promise<Job> {
-    const jobId = generateJobId()
-
-    const job: Job = {
-      jobId,
-      status: "pending",
-      progress: 0,
-      previewUrls: [],
-      modelId: "gemini-pro-vision",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    await jobStore.create(job)
-
-    // Start editing process
-    this.processEditing(jobId, params)
-
-    return job
+  async edit(jobId: string, params: EditParams): Promise<void> {
+    await this.run(jobId, (signal) => this.processEditing(jobId, params, signal))
   }
 
   async status(jobId: string): Promise<Job> {
@@ -64,116 +54,129 @@ export class GeminiAdapter implements ModelAdapter {
   }
 
   async cancel(jobId: string): Promise<boolean> {
-    // TODO: Implement actual cancellation with Gemini API
-    await jobStore.update(jobId, {
+    // Aborting drops the in-flight request; generateContent is synchronous so
+    // there is nothing left to cancel on the Gemini side
+    const controller = this.activeJobs.get(jobId)
+    if (controller) {
+      controller.abort()
+      this.activeJobs.delete(jobId)
+    }
+
+    const job = await jobStore.update(jobId, {
       status: "cancelled",
     })
-    return true
+    return job !== null
   }
 
-  private async processGeneration(jobId: string, params: GenerationParams) {
+  private async run(jobId: string, process: (signal: AbortSignal) => Promise<void>) {
+    const controller = new AbortController()
+    this.activeJobs.set(jobId, controller)
+
     try {
-      await jobStore.update(jobId, {
-        status: "processing",
-        progress: 10,
-      })
-
-      // TODO: Replace with actual Gemini API calls
-      // Example payload structure for Gemini:
-      /*
-      const payload = {
-        contents: [{
-          parts: [{
-            text: this.buildGenerationPrompt(params)
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
+      await process(controller.signal)
+    } finally {
+      this.activeJobs.delete(jobId)
+    }
+  }
+
+  private async processGeneration(jobId: string, params: GenerationParams, signal: AbortSignal) {
+    const seed = params.seed ?? generateSeed()
+
+    await jobStore.update(jobId, {
+      progress: 10,
+      resolvedSeed: seed,
+    })
+
+    const payload = {
+      contents: [
+        {
+          parts: [{ text: this.buildGenerationPrompt(params) }],
+        },
+      ],
+      generationConfig: this.buildGenerationConfig(seed),
+      safetySettings: SAFETY_SETTINGS,
+    }
+
+    const resultUrl = await this.requestImage(payload, signal)
+    const finalUrl = await storeResultImage(resultUrl, { provider: "Gemini", signal })
+
+    await jobStore.update(jobId, {
+      status: "completed",
+      progress: 100,
+      finalUrl,
+    })
+  }
+
+  private async processEditing(jobId: string, params: EditParams, signal: AbortSignal) {
+    const seed = params.seed ?? generateSeed()
+
+    await jobStore.update(jobId, {
+      progress: 15,
+      resolvedSeed: seed,
+    })
+
+    // Gemini has no dedicated mask input, so the mask travels as a second
+    // image that the prompt refers to
+    const [image, mask] = await Promise.all([
+      fetchImageAsBase64(params.imageUrl, { provider: "Gemini", signal }),
+      fetchImageAsBase64(params.maskUrl, { provider: "Gemini", signal }),
+    ])
+
+    await jobStore.update(jobId, {
+      progress: 30,
+    })
+
+    const payload = {
+      contents: [
+        {
+          parts: [{ text: this.buildEditingPrompt(params) }, { inlineData: image }, { inlineData: mask }],
         },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          }
-        ]
-      }
-
-      const response = await fetch(`${this.baseUrl}/models/gemini-pro-vision:generateContent?key=${this.apiKey}`, {
-        method: 'POST',
+      ],
+      generationConfig: this.buildGenerationConfig(seed),
+      safetySettings: SAFETY_SETTINGS,
+    }
+
+    const resultUrl = await this.requestImage(payload, signal)
+    const finalUrl = await storeResultImage(resultUrl, { provider: "Gemini", signal })
+
+    await jobStore.update(jobId, {
+      status: "completed",
+      progress: 100,
+      finalUrl,
+    })
+  }
+
+  private async requestImage(payload: object, signal: AbortSignal): Promise<string> {
+    const result = await providerFetch<GeminiResponse>(
+      `${this.baseUrl}/models/${this.model}:generateContent?key=${this.apiKey}`,
+      {
+        method: "POST",
         headers: {
-          'Content-Type': 'application/json',
+          "Content-Type": "application/json",
         },
-        body: JSON.stringify(payload)
-      })
-
-      if (!response.ok) {
-        throw new Error(`Gemini API error: ${response.statusText}`)
-      }
-
-      const result = await response.json()
-      */
-
-      // For now, simulate the process
-      setTimeout(async () => {
-        await jobStore.update(jobId, {
-          status: "completed",
-          progress: 100,
-          finalUrl: `/placeholder.svg?height=1024&width=1024&text=${encodeURIComponent("Gemini Generated")}`,
-        })
-      }, 5000)
-    } catch (error) {
-      console.error("Gemini generation error:", error)
-      await jobStore.update(jobId, {
-        status: "failed",
-        error: error instanceof Error ? error.message : "Generation failed",
-      })
+        body: JSON.stringify(payload),
+      },
+      { provider: "Gemini", signal, timeoutMs: REQUEST_TIMEOUT_MS },
+    )
+
+    const candidate = result.candidates?.[0]
+    const image = candidate?.content?.parts?.find((part) => part.inlineData)?.inlineData
+
+    if (!image) {
+      // Blocked or text-only answers will not change on a retry
+      throw new ProviderError(`Gemini returned no image (${candidate?.finishReason || "no candidates"})`)
     }
+
+    return `data:${image.mimeType};base64,${image.data}`
   }
 
-  private async processEditing(jobId: string, params: EditParams) {
-    try {
-      await jobStore.update(jobId, {
-        status: "processing",
-        progress: 15,
-      })
-
-      // TODO: Implement actual Gemini editing API calls
-      // This would involve sending the base image, mask, and prompt to Gemini
-      /*
-      const payload = {
-        contents: [{
-          parts: [
-            {
-              text: this.buildEditingPrompt(params)
-            },
-            {
-              inline_data: {
-                mime_type: "image/png",
-                data: await this.imageToBase64(params.imageUrl)
-              }
-            }
-          ]
-        }]
-      }
-      */
-
-      // Simulate editing process
-      setTimeout(async () => {
-        await jobStore.update(jobId, {
-          status: "completed",
-          progress: 100,
-          finalUrl: `/placeholder.svg?height=1024&width=1024&text=${encodeURIComponent("Gemini Edited")}`,
-        })
-      }, 4000)
-    } catch (error) {
-      console.error("Gemini editing error:", error)
-      await jobStore.update(jobId, {
-        status: "failed",
-        error: error instanceof Error ? error.message : "Editing failed",
-      })
+  private buildGenerationConfig(seed: number) {
+    return {
+      temperature: 0.7,
+      topK: 40,
+      topP: 0.95,
+      seed,
+      responseModalities: ["TEXT", "IMAGE"],
     }
   }
 
@@ -202,10 +205,4 @@ export class GeminiAdapter implements ModelAdapter {
     
     ${params.negativePrompt ? `Avoid: ${params.negativePrompt}` : ""}`
   }
-
-  private async imageToBase64(imageUrl: string): Promise<string> {
-    // TODO: Implement image to base64 conversion
-    // This would fetch the image and convert it to base64 for API submission
-    return ""
-  }
 }
@@ -1,50 +1,20 @@
 import type { ModelAdapter, GenerationParams, EditParams, Job } from "../../types"
-import { generateJobId } from "../../utils/imageUtils"
+import { delay } from "../../utils/asyncUtils"
+import { generateSeed } from "../../utils/imageUtils"
 import { jobStore } from "../jobStore"
+import { storage, createStorageKey } from "../storage"
+import { createPlaceholderPng } from "./placeholderImage"
 
 export class LocalMockAdapter implements ModelAdapter {
-  private activeJobs: Map<string, NodeJS.Timeout> = new Map()
-
-  async generate(params: GenerationParams): Promise<Job> {
-    const jobId = generateJobId()
-
-    const job: Job = {
-      jobId,
-      status: "pending",
-      progress: 0,
-      previewUrls: [],
-      modelId: "local-mock",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    await jobStore.create(job)
+  // One controller per running job, so cancel() can stop the whole simulation
+  private activeJobs: Map<string, AbortController> = new Map()
 
-    // Start mock generation process
-    this.simulateGeneration(jobId, params)
-
-    return job
+  async generate(jobId: string, params: GenerationParams): Promise<void> {
+    await this.run(jobId, (signal) => this.simulateGeneration(jobId, params, signal))
   }
 
-  async edit(params: EditParams): Promise<Job> {
-    const jobId = generateJobId()
-
-    const job: Job = {
-      jobId,
-      status: "pending",
-      progress: 0,
-      previewUrls: [],
-      modelId: "local-mock",
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    await jobStore.create(job)
-
-    // Start mock editing process
-    this.simulateEditing(jobId, params)
-
-    return job
+  async edit(jobId: string, params: EditParams): Promise<void> {
+    await this.run(jobId, (signal) => this.simulateEditing(jobId, params, signal))
   }
 
   async status(jobId: string): Promise<Job> {
@@ -56,9 +26,9 @@ export class LocalMockAdapter implements ModelAdapter {
   }
 
   async cancel(jobId: string): Promise<boolean> {
-    const timeout = this.activeJobs.get(jobId)
-    if (timeout) {
-      clearTimeout(timeout)
+    const controller = this.activeJobs.get(jobId)
+    if (controller) {
+      controller.abort()
       this.activeJobs.delete(jobId)
 
       await jobStore.update(jobId, {
@@ -71,91 +41,74 @@ export class LocalMockAdapter implements ModelAdapter {
     return false
   }
 
-  private async simulateGeneration(jobId: string, params: GenerationParams) {
-    try {
-      // Update to processing
-      await jobStore.update(jobId, {
-        status: "processing",
-        progress: 10,
-        eta: 30,
-      })
+  private async run(jobId: string, process: (signal: AbortSignal) => Promise<void>) {
+    const controller = new AbortController()
+    this.activeJobs.set(jobId, controller)
 
-      // Generate low-res preview after 2 seconds
-      const lowResTimeout = setTimeout(async () => {
-        const lowResPreview = this.generatePlaceholderImage(256, 256, "Low-res preview")
-        await jobStore.update(jobId, {
-          progress: 40,
-          previewUrls: [lowResPreview],
-          eta: 20,
-        })
-      }, 2000)
-
-      // Generate mid-res preview after 5 seconds
-      const midResTimeout = setTimeout(async () => {
-        const midResPreview = this.generatePlaceholderImage(512, 512, "Mid-res preview")
-        await jobStore.update(jobId, {
-          progress: 70,
-          previewUrls: [midResPreview],
-          eta: 10,
-        })
-      }, 5000)
-
-      // Generate final image after 8 seconds
-      const finalTimeout = setTimeout(async () => {
-        const finalImage = this.generatePlaceholderImage(1024, 1024, "Final image")
-        await jobStore.update(jobId, {
-          status: "completed",
-          progress: 100,
-          finalUrl: finalImage,
-          eta: 0,
-        })
-
-        this.activeJobs.delete(jobId)
-      }, 8000)
-
-      this.activeJobs.set(jobId, finalTimeout)
-    } catch (error) {
-      await jobStore.update(jobId, {
-        status: "failed",
-        error: "Mock generation failed",
-      })
+    try {
+      await process(controller.signal)
+    } finally {
       this.activeJobs.delete(jobId)
     }
   }
 
-  private async simulateEditing(jobId: string, params: EditParams) {
-    try {
-      // Similar to generation but with editing-specific logic
-      await jobStore.update(jobId, {
-        status: "processing",
-        progress: 15,
-        eta: 25,
-      })
-
-      const finalTimeout = setTimeout(async () => {
-        const editedImage = this.generatePlaceholderImage(1024, 1024, "Edited image")
-        await jobStore.update(jobId, {
-          status: "completed",
-          progress: 100,
-          finalUrl: editedImage,
-          eta: 0,
-        })
-
-        this.activeJobs.delete(jobId)
-      }, 6000)
+  private async simulateGeneration(jobId: string, params: GenerationParams, signal: AbortSignal) {
+    await jobStore.update(jobId, {
+      progress: 10,
+      eta: 30,
+      resolvedSeed: params.seed ?? generateSeed(),
+    })
+
+    // Generate low-res preview after 2 seconds
+    await delay(2000, signal)
+    const lowResPreview = await this.storePlaceholderImage(256, 256, [148, 163, 184])
+    await jobStore.update(jobId, {
+      progress: 40,
+      previewUrls: [lowResPreview],
+      eta: 20,
+    })
+
+    // Generate mid-res preview after 5 seconds
+    await delay(3000, signal)
+    const midResPreview = await this.storePlaceholderImage(512, 512, [100, 116, 139])
+    await jobStore.update(jobId, {
+      progress: 70,
+      previewUrls: [midResPreview],
+      eta: 10,
+    })
+
+    // Generate final image after 8 seconds
+    await delay(3000, signal)
+    const finalImage = await this.storePlaceholderImage(1024, 1024, [79, 70, 229])
+    await jobStore.update(jobId, {
+      status: "completed",
+      progress: 100,
+      finalUrl: finalImage,
+      eta: 0,
+    })
+  }
 
-      this.activeJobs.set(jobId, finalTimeout)
-    } catch (error) {
-      await jobStore.update(jobId, {
-        status: "failed",
-        error: "Mock editing failed",
-      })
-      this.activeJobs.delete(jobId)
-    }
+  private async simulateEditing(jobId: string, params: EditParams, signal: AbortSignal) {
+    // Similar to generation but with editing-specific logic
+    await jobStore.update(jobId, {
+      progress: 15,
+      eta: 25,
+      resolvedSeed: params.seed ?? generateSeed(),
+    })
+
+    await delay(6000, signal)
+    const editedImage = await this.storePlaceholderImage(1024, 1024, [13, 148, 136])
+    await jobStore.update(jobId, {
+      status: "completed",
+      progress: 100,
+      finalUrl: editedImage,
+      eta: 0,
+    })
   }
 
-  private generatePlaceholderImage(width: number, height: number, text: string): string {
-    // Generate a placeholder image URL with specified dimensions and text
-    return `/placeholder.svg?height=${height}&width=${width}&text=${encodeURIComponent(text)}`
+  // Stored like real results, so mock images can be edited and used as edit inputs
+  private async storePlaceholderImage(width: number, height: number, color: [number, number, number]): Promise<string> {
+    const png = createPlaceholderPng(width, height, color, [15, 23, 42])
+    return storage.put(createStorageKey("results", "image/png"), png, "image/png")
   }
 }
@@ -0,0 +1,55 @@
+import zlib from "zlib"
+
+type Rgb = [number, number, number]
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+// A PNG of the given size fading from `top` to `bottom`, so the mock adapter
+// stores real images that can be edited like provider results
+export function createPlaceholderPng(width: number, height: number, top: Rgb, bottom: Rgb): Buffer {
+  // Each row is a filter byte (0, none) followed by RGB pixels
+  const rowLength = 1 + width * 3
+  const pixels = Buffer.alloc(rowLength * height)
+
+  for (let y = 0; y < height; y++) {
+    const t = height > 1 ? y / (height - 1) : 0
+    const color = top.map((value, i) => Math.round(value + (bottom[i] - value) * t))
+    for (let x = 0; x < width; x++) {
+      pixels.set(color, y * rowLength + 1 + x * 3)
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 2 // truecolor
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", zlib.deflateSync(pixels)),
+    chunk("IEND", Buffer.alloc(0)),
+  ])
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
@@ -0,0 +1,111 @@
+import { ProviderError } from "../retryPolicy"
+import { storage, createStorageKey } from "../storage"
+import { detectImageType, parseDataUrl } from "../../utils/imageUtils"
+
+interface ProviderFetchOptions {
+  // Provider name used in error messages
+  provider: string
+  signal: AbortSignal
+  timeoutMs: number
+}
+
+// fetch() for provider APIs: applies a per-request timeout on top of the job's
+// cancellation signal, parses JSON and turns non-2xx responses into ProviderErrors
+export async function providerFetch<T>(url: string, init: RequestInit, options: ProviderFetchOptions): Promise<T> {
+  const { provider, signal, timeoutMs } = options
+
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(signal.reason)
+  const timeout = setTimeout(() => {
+    controller.abort(new ProviderError(`${provider} API request timed out after ${timeoutMs}ms`, { retryable: true }))
+  }, timeoutMs)
+
+  if (signal.aborted) onAbort()
+  signal.addEventListener("abort", onAbort, { once: true })
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+
+    if (!response.ok) {
+      throw new ProviderError(`${provider} API error: ${response.status} ${response.statusText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      })
+    }
+
+    return (await response.json()) as T
+  } catch (error) {
+    // fetch() rejects with the abort reason, which is our ProviderError on timeout
+    throw controller.signal.aborted && !signal.aborted ? controller.signal.reason : error
+  } finally {
+    clearTimeout(timeout)
+    signal.removeEventListener("abort", onAbort)
+  }
+}
+
+// Loads a request's input image from a data: URL or our own storage as base64
+// for inline submission. Other URLs are never fetched, so requests cannot make
+// the server reach internal hosts.
+export async function fetchImageAsBase64(
+  url: string,
+  options: Pick<ProviderFetchOptions, "provider" | "signal">,
+): Promise<{ mimeType: string; data: string }> {
+  const dataUrl = parseDataUrl(url)
+  if (dataUrl) return dataUrl
+
+  const stored = await storage.read(url)
+  if (!stored) {
+    throw new ProviderError(`Failed to load image for ${options.provider}: not a stored upload`, { retryable: false })
+  }
+
+  return { mimeType: stored.contentType, data: stored.data.toString("base64") }
+}
+
+// Loads an image a provider returned, as a data: URL or from the provider's own host
+async function fetchResultImage(
+  url: string,
+  options: Pick<ProviderFetchOptions, "provider" | "signal">,
+): Promise<{ mimeType: string; data: string }> {
+  const dataUrl = parseDataUrl(url)
+  if (dataUrl) return dataUrl
+
+  const response = await fetch(url, { signal: options.signal })
+  if (!response.ok) {
+    throw new ProviderError(`Failed to load image for ${options.provider}: ${response.status} ${response.statusText}`, {
+      status: response.status,
+    })
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  return {
+    mimeType: response.headers.get("content-type") || "image/png",
+    data: buffer.toString("base64"),
+  }
+}
+
+// Copies a generated image into our storage, so jobs never point at provider
+// URLs that expire or need the provider's credentials
+export async function storeResultImage(
+  url: string,
+  options: Pick<ProviderFetchOptions, "provider" | "signal">,
+): Promise<string> {
+  const image = await fetchResultImage(url, options)
+  const data = Buffer.from(image.data, "base64")
+
+  const contentType = detectImageType(data)
+  if (!contentType) {
+    throw new ProviderError(`${options.provider} returned an unsupported image type (${image.mimeType})`)
+  }
+
+  return storage.put(createStorageKey("results", contentType), data, contentType)
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
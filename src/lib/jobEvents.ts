@@ -0,0 +1,29 @@
+import { EventEmitter } from "events"
+import type { Job } from "../types"
+
+type JobListener = (job: Job) => void
+
+// In-process notifications for job changes. Every JobStore backend publishes
+// here after a successful update so that streaming endpoints can push the new
+// snapshot without polling the store.
+class JobEvents {
+  private emitter = new EventEmitter()
+
+  constructor() {
+    // One listener per open SSE connection; there is no meaningful upper bound
+    this.emitter.setMaxListeners(0)
+  }
+
+  publish(job: Job) {
+    this.emitter.emit(job.jobId, job)
+  }
+
+  subscribe(jobId: string, listener: JobListener): () => void {
+    this.emitter.on(jobId, listener)
+    return () => {
+      this.emitter.off(jobId, listener)
+    }
+  }
+}
+
+export const jobEvents = new JobEvents()
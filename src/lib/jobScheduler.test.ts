@@ -0,0 +1,182 @@
+import fs from "fs"
+import http from "http"
+import type { AddressInfo } from "net"
+import os from "os"
+import path from "path"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import type { GenerationParams, Job } from "../types"
+import { isTerminalStatus } from "../utils/jobUtils"
+
+// Retry, backoff and failover against a local stub standing in for the Gemini
+// and Banana APIs. The adapters pick their base URLs up from the environment,
+// so the server has to be listening before the modules are imported.
+
+// Just enough of a PNG for the storage's content check
+const PNG = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex").toString("base64")
+
+interface StubResponse {
+  status: number
+  headers?: Record<string, string>
+  body: unknown
+}
+
+interface StubRequest {
+  provider: "gemini" | "banana"
+  at: number
+}
+
+const geminiImage: StubResponse = {
+  status: 200,
+  body: { candidates: [{ content: { parts: [{ inlineData: { mimeType: "image/png", data: PNG } }] } }] },
+}
+
+const bananaImage: StubResponse = {
+  status: 200,
+  body: { id: "banana-run", status: "completed", modelOutputs: { image_url: `data:image/png;base64,${PNG}` } },
+}
+
+const serverError: StubResponse = { status: 503, body: { error: "unavailable" } }
+
+const params: GenerationParams = {
+  prompt: "a lighthouse at dusk",
+  mode: "cartoonize",
+  size: "1024x1024",
+  aspectRatio: "1:1",
+}
+
+let server: http.Server
+let storageDir: string
+let requests: StubRequest[]
+// Responses for the next requests to each provider; the last one repeats
+let responses: Record<StubRequest["provider"], StubResponse[]>
+
+let jobScheduler: typeof import("./jobScheduler").jobScheduler
+let jobStore: typeof import("./jobStore").jobStore
+let modelRegistry: typeof import("./modelRegistry").modelRegistry
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const provider = req.url?.includes(":generateContent") ? "gemini" : "banana"
+    requests.push({ provider, at: Date.now() })
+
+    const queue = responses[provider]
+    const response = queue.length > 1 ? queue.shift()! : queue[0]
+    req.resume()
+    res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers })
+    res.end(JSON.stringify(response.body))
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const stubUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "job-scheduler-test-"))
+  vi.stubEnv("STORAGE_LOCAL_DIR", storageDir)
+  vi.stubEnv("STORAGE_SIGNING_SECRET", "test-secret")
+  vi.stubEnv("GEMINI_API_KEY", "test-key")
+  vi.stubEnv("GEMINI_API_BASE_URL", stubUrl)
+  vi.stubEnv("BANANA_API_KEY", "test-key")
+  vi.stubEnv("BANANA_API_BASE_URL", stubUrl)
+  ;({ jobScheduler } = await import("./jobScheduler"))
+  ;({ jobStore } = await import("./jobStore"))
+  ;({ modelRegistry } = await import("./modelRegistry"))
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await new Promise((resolve) => server.close(resolve))
+  fs.rmSync(storageDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  requests = []
+  responses = { gemini: [geminiImage], banana: [bananaImage] }
+
+  // Keep the models' attempt counts and failover, but without jitter and with
+  // short delays, so any long wait can only come from Retry-After
+  const getRetryPolicy = modelRegistry.getRetryPolicy.bind(modelRegistry)
+  vi.spyOn(modelRegistry, "getRetryPolicy").mockImplementation((modelId) => ({
+    ...getRetryPolicy(modelId),
+    baseDelayMs: 10,
+    maxDelayMs: 5000,
+    jitter: 0,
+  }))
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+async function waitForJob(jobId: string): Promise<Job> {
+  for (;;) {
+    const job = await jobStore.get(jobId)
+    if (job && isTerminalStatus(job.status)) return job
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+const countRequests = (provider: StubRequest["provider"]) =>
+  requests.filter((request) => request.provider === provider).length
+
+describe("jobScheduler against a stub provider", () => {
+  it("retries rate-limited requests after the Retry-After delay", async () => {
+    responses.gemini = [{ status: 429, headers: { "Retry-After": "1" }, body: {} }, geminiImage]
+
+    const job = await waitForJob((await jobScheduler.submitGeneration("gemini-pro-vision", params)).jobId)
+
+    expect(job.status).toBe("completed")
+    expect(job.modelId).toBe("gemini-pro-vision")
+    expect(countRequests("gemini")).toBe(2)
+    expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(950)
+    expect(job.attempts?.map((attempt) => attempt.error)).toEqual(["Gemini API error: 429 Too Many Requests", undefined])
+  })
+
+  it("gives up on a model after its maxAttempts and fails over to the next capable one", async () => {
+    responses.gemini = [serverError]
+
+    const job = await waitForJob((await jobScheduler.submitGeneration("gemini-pro-vision", params)).jobId)
+
+    expect(job.status).toBe("completed")
+    expect(job.modelId).toBe("banana-stable-diffusion")
+    expect(countRequests("gemini")).toBe(modelRegistry.getRetryPolicy("gemini-pro-vision").maxAttempts)
+    expect(countRequests("banana")).toBe(1)
+    expect(job.attempts?.map((attempt) => attempt.modelId)).toEqual([
+      "gemini-pro-vision",
+      "gemini-pro-vision",
+      "gemini-pro-vision",
+      "banana-stable-diffusion",
+    ])
+  })
+
+  it("fails the job once every capable model has run out of attempts", async () => {
+    responses.gemini = [serverError]
+    responses.banana = [serverError]
+
+    const job = await waitForJob((await jobScheduler.submitGeneration("gemini-pro-vision", params)).jobId)
+
+    expect(job.status).toBe("failed")
+    expect(job.error).toBe("Banana API error: 503 Service Unavailable")
+    expect(countRequests("gemini")).toBe(3)
+    expect(countRequests("banana")).toBe(modelRegistry.getRetryPolicy("banana-stable-diffusion").maxAttempts)
+  })
+
+  it("does not retry client errors", async () => {
+    responses.gemini = [{ status: 400, body: {} }]
+
+    const job = await waitForJob((await jobScheduler.submitGeneration("gemini-pro-vision", params)).jobId)
+
+    expect(job.status).toBe("failed")
+    expect(countRequests("gemini")).toBe(1)
+    expect(countRequests("banana")).toBe(0)
+  })
+
+  it("keeps jobs pinned to a model on that model", async () => {
+    responses.gemini = [serverError]
+
+    const pinned = { ...params, modelId: "gemini-pro-vision" }
+    const job = await waitForJob((await jobScheduler.submitGeneration("gemini-pro-vision", pinned)).jobId)
+
+    expect(job.status).toBe("failed")
+    expect(countRequests("banana")).toBe(0)
+  })
+})
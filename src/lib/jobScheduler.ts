@@ -0,0 +1,302 @@
+import type { ModelAdapter, GenerationParams, EditParams, Job, JobAttempt, ConsentRecord } from "../types"
+import { delay } from "../utils/asyncUtils"
+import { generateJobId } from "../utils/imageUtils"
+import { isTerminalStatus } from "../utils/jobUtils"
+import { jobStore } from "./jobStore"
+import { modelRegistry } from "./modelRegistry"
+import { getBackoffDelay, isRetryableError } from "./retryPolicy"
+import limits from "../config/limits.json"
+
+interface QueuedJob {
+  jobId: string
+  modelId: string
+  kind: Job["kind"]
+  params: GenerationParams
+  position: number
+  // Models this job has run on, including the current one
+  triedModelIds: string[]
+  // When the job times out, fixed at its first dispatch and kept across failovers
+  deadline?: number
+  timeout?: NodeJS.Timeout
+  // Aborted when the job times out, ending any backoff wait
+  timedOut?: AbortController
+  run: (adapter: ModelAdapter) => Promise<void>
+}
+
+// Sits between the API routes and the adapters. Jobs wait as "pending" in a
+// FIFO queue per model, at most `maxConcurrent` of them run at once on each
+// model, and a job still unfinished `timeoutMinutes` after it first started,
+// across retries and failovers, is failed.
+// Transient provider failures are retried with backoff according to the
+// model's retry policy, then handed to the next capable model.
+class JobScheduler {
+  private queues: Map<string, QueuedJob[]> = new Map()
+  private running: Map<string, Set<string>> = new Map()
+
+  constructor(
+    private maxConcurrent: number,
+    private timeoutMinutes: number,
+  ) {}
+
+  async submitGeneration(modelId: string, params: GenerationParams): Promise<Job> {
+    return this.submit(
+      modelId,
+      { kind: "generate", params, retryOfJobId: params.retryOfJobId },
+      (adapter, jobId) => adapter.generate(jobId, params),
+    )
+  }
+
+  async submitEdit(modelId: string, params: EditParams, consent?: ConsentRecord): Promise<Job> {
+    return this.submit(
+      modelId,
+      { kind: "edit", params, parentJobId: params.parentJobId, retryOfJobId: params.retryOfJobId, consent },
+      (adapter, jobId) => adapter.edit(jobId, params),
+    )
+  }
+
+  async cancel(jobId: string): Promise<Job | null> {
+    const job = await jobStore.get(jobId)
+    if (!job) return null
+
+    // Still queued: drop it before any adapter sees it
+    const queue = this.getQueue(job.modelId)
+    const index = queue.findIndex((entry) => entry.jobId === jobId)
+    if (index !== -1) {
+      queue.splice(index, 1)
+      await this.updateQueuePositions(job.modelId)
+      return jobStore.update(jobId, { status: "cancelled", queuePosition: undefined })
+    }
+
+    // Running: stop the pipeline through the adapter that owns it
+    const model = modelRegistry.getModel(job.modelId)
+    if (model) {
+      await model.adapter.cancel(jobId)
+    } else {
+      console.warn(`No adapter registered for model ${job.modelId}, marking job ${jobId} cancelled`)
+    }
+
+    // Adapters that had nothing in flight leave the status untouched
+    const current = await jobStore.get(jobId)
+    if (current && !isTerminalStatus(current.status)) {
+      return jobStore.update(jobId, { status: "cancelled" })
+    }
+    return current
+  }
+
+  private async submit(
+    modelId: string,
+    request: Pick<Job, "kind" | "params" | "parentJobId" | "retryOfJobId" | "consent">,
+    run: (adapter: ModelAdapter, jobId: string) => Promise<void>,
+  ): Promise<Job> {
+    const jobId = generateJobId()
+    const queue = this.getQueue(modelId)
+    const position = queue.length + 1
+
+    const job: Job = {
+      jobId,
+      status: "pending",
+      progress: 0,
+      previewUrls: [],
+      modelId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      queuePosition: position,
+      attempts: [],
+      ...request,
+    }
+
+    await jobStore.create(job)
+    queue.push({
+      jobId,
+      modelId,
+      kind: request.kind,
+      params: request.params,
+      position,
+      triedModelIds: [modelId],
+      run: (adapter) => run(adapter, jobId),
+    })
+
+    await this.drain(modelId)
+
+    // Return the latest snapshot: the job may already have started
+    return (await jobStore.get(jobId)) || job
+  }
+
+  private async drain(modelId: string) {
+    const queue = this.getQueue(modelId)
+    const running = this.getRunning(modelId)
+
+    while (queue.length > 0 && running.size < this.maxConcurrent) {
+      this.dispatch(queue.shift()!)
+    }
+
+    await this.updateQueuePositions(modelId)
+  }
+
+  private dispatch(entry: QueuedJob) {
+    // Claim the slot synchronously so concurrent drains cannot oversubscribe
+    this.getRunning(entry.modelId).add(entry.jobId)
+    entry.deadline ??= Date.now() + this.timeoutMinutes * 60 * 1000
+    entry.timedOut = new AbortController()
+    entry.timeout = setTimeout(() => this.timeOut(entry), Math.max(0, entry.deadline - Date.now()))
+
+    this.execute(entry).finally(() => this.release(entry))
+  }
+
+  private async execute(entry: QueuedJob) {
+    const model = modelRegistry.getModel(entry.modelId)
+    if (!model) {
+      await this.fail(entry, new Error(`Model ${entry.modelId} is not available`))
+      return
+    }
+
+    const policy = modelRegistry.getRetryPolicy(entry.modelId)
+
+    for (let attempt = 1; ; attempt++) {
+      // Cancelled or timed out while waiting for the next attempt
+      const job = await jobStore.get(entry.jobId)
+      if (!job || isTerminalStatus(job.status)) return
+
+      const started = await jobStore.update(entry.jobId, {
+        status: "processing",
+        progress: 0,
+        queuePosition: undefined,
+        attempts: [...(job.attempts ?? []), { modelId: entry.modelId, startedAt: new Date() }],
+      })
+      if (!started) return
+
+      try {
+        await entry.run(model.adapter)
+        return
+      } catch (error) {
+        // Cancelled and timed-out jobs are already terminal; their aborted
+        // pipelines end up here too and need no further handling
+        const current = await jobStore.get(entry.jobId)
+        if (!current || isTerminalStatus(current.status)) return
+
+        await jobStore.update(entry.jobId, { attempts: recordAttemptError(current.attempts, error) })
+
+        if (!isRetryableError(error)) {
+          await this.fail(entry, error)
+          return
+        }
+
+        if (attempt < policy.maxAttempts) {
+          const delayMs = getBackoffDelay(attempt, policy, error)
+          console.warn(`Job ${entry.jobId} attempt ${attempt} on ${entry.modelId} failed, retrying in ${delayMs}ms:`, error)
+          // A timeout during the wait fails the job, which the next iteration sees
+          await delay(delayMs, entry.timedOut?.signal).catch(() => {})
+          continue
+        }
+
+        // Jobs pinned to a model by the client stay on it
+        if (!policy.failover || entry.params.modelId || !(await this.failOver(entry))) {
+          await this.fail(entry, error)
+        }
+        return
+      }
+    }
+  }
+
+  // Requeues the job at the front of the next capable model's queue. Returns
+  // false when no model is left to try.
+  private async failOver(entry: QueuedJob): Promise<boolean> {
+    const next = modelRegistry.getFailoverModel(entry.kind, entry.params, entry.triedModelIds)
+    if (!next) return false
+
+    const job = await jobStore.update(entry.jobId, {
+      status: "pending",
+      progress: 0,
+      previewUrls: [],
+      modelId: next.id,
+      queuePosition: 1,
+    })
+    if (!job) return false
+
+    console.warn(`Job ${entry.jobId} failing over from ${entry.modelId} to ${next.id}`)
+
+    // A fresh entry: the current one still has to release its slot on the old model
+    this.getQueue(next.id).unshift({
+      jobId: entry.jobId,
+      modelId: next.id,
+      kind: entry.kind,
+      params: entry.params,
+      position: 1,
+      triedModelIds: [...entry.triedModelIds, next.id],
+      deadline: entry.deadline,
+      run: entry.run,
+    })
+    await this.drain(next.id)
+    return true
+  }
+
+  private async fail(entry: QueuedJob, error: unknown) {
+    console.error(`Job ${entry.jobId} failed:`, error)
+    await jobStore.update(entry.jobId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Job failed",
+    })
+  }
+
+  private async timeOut(entry: QueuedJob) {
+    entry.timedOut?.abort()
+    const job = await jobStore.update(entry.jobId, {
+      status: "failed",
+      error: `Job timed out after ${this.timeoutMinutes} minutes`,
+    })
+
+    if (job) {
+      console.warn(`Job ${entry.jobId} timed out on model ${entry.modelId}`)
+      await modelRegistry.getModel(entry.modelId)?.adapter.cancel(entry.jobId)
+    }
+
+    // Free the slot even if the adapter never settles
+    this.release(entry)
+  }
+
+  private release(entry: QueuedJob) {
+    if (!this.getRunning(entry.modelId).delete(entry.jobId)) return
+
+    clearTimeout(entry.timeout)
+
+    this.drain(entry.modelId).catch((error) => {
+      console.error(`Failed to start queued jobs for model ${entry.modelId}:`, error)
+    })
+  }
+
+  private async updateQueuePositions(modelId: string) {
+    // Only write jobs that actually moved; every write is pushed to clients
+    await Promise.all(
+      this.getQueue(modelId).map((entry, index) => {
+        if (entry.position === index + 1) return null
+        entry.position = index + 1
+        return jobStore.update(entry.jobId, { queuePosition: entry.position })
+      }),
+    )
+  }
+
+  private getQueue(modelId: string): QueuedJob[] {
+    let queue = this.queues.get(modelId)
+    if (!queue) {
+      queue = []
+      this.queues.set(modelId, queue)
+    }
+    return queue
+  }
+
+  private getRunning(modelId: string): Set<string> {
+    let running = this.running.get(modelId)
+    if (!running) {
+      running = new Set()
+      this.running.set(modelId, running)
+    }
+    return running
+  }
+}
+
+function recordAttemptError(attempts: JobAttempt[] = [], error: unknown): JobAttempt[] {
+  const message = error instanceof Error ? error.message : String(error)
+  return attempts.map((attempt, index) => (index === attempts.length - 1 ? { ...attempt, error: message } : attempt))
+}
+
+export const jobScheduler = new JobScheduler(limits.jobs.maxConcurrent, limits.jobs.timeoutMinutes)
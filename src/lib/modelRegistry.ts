@@ -1,26 +1,41 @@
-import type { ModelAdapter } from "../types"
+import type {
+  GenerationParams,
+  Job,
+  ModelAdapter,
+  ModelCapability,
+  ModelInfo,
+  ModelRequirements,
+} from "../types"
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "./retryPolicy"
+import { findMode } from "../utils/modeUtils"
+import routingConfig from "../config/routing.json"
 import { LocalMockAdapter } from "./adapters/LocalMockAdapter"
 import { GeminiAdapter } from "./adapters/GeminiAdapter"
 import { BananaAdapter } from "./adapters/BananaAdapter"
 
-interface ModelRegistryEntry {
-  id: string
-  name: string
-  provider: string
-  capabilities: {
-    textToImage: boolean
-    imageToImage: boolean
-    inpainting: boolean
-    maxResolution: string
-    supportedFormats: string[]
-  }
-  pricing?: {
-    costPerImage: number
-    currency: string
-  }
+interface ModelRegistryEntry extends ModelInfo {
+  // Overrides of DEFAULT_RETRY_POLICY for this model
+  retryPolicy?: Partial<RetryPolicy>
   adapter: ModelAdapter
 }
 
+interface RoutingConfig {
+  // "preference" follows the preference list, "cheapest" picks the lowest costPerImage
+  strategy: "preference" | "cheapest"
+  // Model ids in order of preference; unlisted models come last
+  preference: string[]
+  // Models above this price are never picked; null for no ceiling
+  maxCostPerImage: number | null
+}
+
+const routing = routingConfig as RoutingConfig
+
+// Capability every request of a kind needs, on top of the mode's requirements
+const KIND_CAPABILITY: Record<Job["kind"], ModelCapability> = {
+  generate: "textToImage",
+  edit: "inpainting",
+}
+
 class ModelRegistry {
   private models: Map<string, ModelRegistryEntry> = new Map()
 
@@ -29,20 +44,28 @@ class ModelRegistry {
   }
 
   private initializeModels() {
-    // Local Mock Adapter (for development)
-    this.registerModel({
-      id: "local-mock",
-      name: "Local Mock Generator",
-      provider: "local",
-      capabilities: {
-        textToImage: true,
-        imageToImage: true,
-        inpainting: true,
-        maxResolution: "1024x1024",
-        supportedFormats: ["png", "jpg", "webp"],
-      },
-      adapter: new LocalMockAdapter(),
-    })
+    // Local Mock Adapter (for development). Production only serves requests
+    // from real providers unless the mock is enabled explicitly.
+    if (process.env.NODE_ENV !== "production" || process.env.ENABLE_LOCAL_MOCK === "true") {
+      this.registerModel({
+        id: "local-mock",
+        name: "Local Mock Generator",
+        provider: "local",
+        capabilities: {
+          textToImage: true,
+          imageToImage: true,
+          inpainting: true,
+          maxResolution: "1024x1024",
+          supportedFormats: ["png", "jpg", "webp"],
+        },
+        // Simulated runs never fail transiently
+        retryPolicy: {
+          maxAttempts: 1,
+          failover: false,
+        },
+        adapter: new LocalMockAdapter(),
+      })
+    }
 
     // Gemini Adapter (requires GEMINI_API_KEY)
     if (process.env.GEMINI_API_KEY) {
@@ -61,6 +84,10 @@ class ModelRegistry {
           costPerImage: 0.05,
           currency: "USD",
         },
+        retryPolicy: {
+          maxAttempts: 3,
+          baseDelayMs: 2000,
+        },
         adapter: new GeminiAdapter(),
       })
     }
@@ -82,6 +109,11 @@ class ModelRegistry {
           costPerImage: 0.02,
           currency: "USD",
         },
+        // Cold starts on Banana often answer 503 for a while
+        retryPolicy: {
+          maxAttempts: 4,
+          baseDelayMs: 5000,
+        },
         adapter: new BananaAdapter(),
       })
     }
@@ -91,34 +123,68 @@ class ModelRegistry {
     this.models.set(entry.id, entry)
   }
 
-  getAdapterForMode(mode: string): ModelAdapter {
-    // Default to local mock for development
-    const defaultModelId = process.env.NODE_ENV === "production" ? "gemini-pro-vision" : "local-mock"
+  // Best registered model for a request, or null when none can serve it
+  selectModel(kind: Job["kind"], params: GenerationParams): ModelRegistryEntry | null {
+    return this.rankModels(kind, params)[0] || null
+  }
+
+  // Whether a specific model can serve a request, for clients that pick one
+  canServe(model: ModelRegistryEntry, kind: Job["kind"], params: GenerationParams): boolean {
+    return satisfies(model, this.getRequirements(kind, params))
+  }
 
-    // Mode-specific model selection logic
-    const modelId = this.selectModelForMode(mode) || defaultModelId
-    const model = this.models.get(modelId)
+  getRequirements(kind: Job["kind"], params: GenerationParams): ModelRequirements {
+    const modeRequirements = findMode(params.mode)?.requirements
+    const capabilities = new Set([KIND_CAPABILITY[kind], ...(modeRequirements?.capabilities ?? [])])
 
-    if (!model) {
-      console.warn(`Model ${modelId} not found, falling back to local mock`)
-      return this.models.get("local-mock")!.adapter
-    }
+    // The requested size has to fit as well as the mode's minimum
+    const sizes = [modeRequirements?.minResolution, params.size]
+      .filter((size): size is string => !!size)
+      .map(parseResolution)
+    const minResolution =
+      sizes.length > 0
+        ? `${Math.max(...sizes.map((size) => size.width))}x${Math.max(...sizes.map((size) => size.height))}`
+        : undefined
 
-    return model.adapter
+    return { capabilities: Array.from(capabilities), minResolution }
   }
 
-  private selectModelForMode(mode: string): string | null {
-    // Mode-specific model selection logic
-    switch (mode) {
-      case "add-girlfriend":
-        return "gemini-pro-vision" // Better for people generation
-      case "studio-portrait":
-        return "banana-stable-diffusion" // Good for portraits
-      case "cartoonize":
-        return "gemini-pro-vision" // Better for style transfer
-      default:
-        return null
+  // Models that satisfy the request, best first: the mode's preferred models,
+  // then the configured strategy. Models over the cost ceiling are left out.
+  private rankModels(kind: Job["kind"], params: GenerationParams): ModelRegistryEntry[] {
+    const requirements = this.getRequirements(kind, params)
+    const preferred = findMode(params.mode)?.preferredModels ?? []
+
+    const rank = (model: ModelRegistryEntry) => {
+      const index = routing.preference.indexOf(model.id)
+      return index === -1 ? routing.preference.length : index
     }
+
+    return this.getAvailableModels()
+      .filter((model) => satisfies(model, requirements))
+      .filter((model) => routing.maxCostPerImage === null || getCost(model) <= routing.maxCostPerImage)
+      .sort((a, b) => {
+        const preferredA = preferred.includes(a.id) ? preferred.indexOf(a.id) : preferred.length
+        const preferredB = preferred.includes(b.id) ? preferred.indexOf(b.id) : preferred.length
+        if (preferredA !== preferredB) return preferredA - preferredB
+
+        if (routing.strategy === "cheapest" && getCost(a) !== getCost(b)) return getCost(a) - getCost(b)
+        return rank(a) - rank(b)
+      })
+  }
+
+  getRetryPolicy(modelId: string): RetryPolicy {
+    return { ...DEFAULT_RETRY_POLICY, ...this.models.get(modelId)?.retryPolicy }
+  }
+
+  // Next model that can take over a job after `triedModelIds` gave up on it.
+  // The local mock is never a failover target: it would silently turn a
+  // provider outage into placeholder images.
+  getFailoverModel(kind: Job["kind"], params: GenerationParams, triedModelIds: string[]): ModelRegistryEntry | null {
+    return (
+      this.rankModels(kind, params).find((model) => !triedModelIds.includes(model.id) && model.provider !== "local") ||
+      null
+    )
   }
 
   getAvailableModels(): ModelRegistryEntry[] {
@@ -134,4 +200,32 @@ class ModelRegistry {
   }
 }
 
+function satisfies(model: ModelRegistryEntry, requirements: ModelRequirements): boolean {
+  if (!requirements.capabilities.every((capability) => model.capabilities[capability])) return false
+  return !requirements.minResolution || fitsResolution(requirements.minResolution, model.capabilities.maxResolution)
+}
+
+function parseResolution(size: string): { width: number; height: number } {
+  const [width, height] = size.split("x").map(Number)
+  return { width: width || 0, height: height || 0 }
+}
+
+// Whether a "WIDTHxHEIGHT" size fits within another
+function fitsResolution(size: string, max: string): boolean {
+  const { width, height } = parseResolution(size)
+  const maxSize = parseResolution(max)
+  return width <= maxSize.width && height <= maxSize.height
+}
+
+function getCost(model: ModelRegistryEntry): number {
+  return model.pricing?.costPerImage ?? 0
+}
+
+// Human-readable summary for "no model available" errors
+export function describeRequirements(requirements: ModelRequirements): string {
+  const parts: string[] = [...requirements.capabilities]
+  if (requirements.minResolution) parts.push(`at least ${requirements.minResolution}`)
+  return parts.join(", ")
+}
+
 export const modelRegistry = new ModelRegistry()
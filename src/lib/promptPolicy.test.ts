@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest"
+import { PromptPolicy, promptPolicy, type PromptPolicyConfig } from "./promptPolicy"
+
+const config: PromptPolicyConfig = {
+  rules: [
+    { id: "email", action: "redact", pattern: "\\S+@\\S+\\.\\w+", replacement: "[EMAIL]" },
+    { id: "no-redacted-email", action: "reject", pattern: "\\[EMAIL\\]", message: "No emails" },
+    { id: "cat-to-dog", action: "rewrite", pattern: "\\bcat\\b", replacement: "dog" },
+    { id: "no-dogs", action: "reject", pattern: "\\bdog\\b", message: "No dogs" },
+    { id: "collapse-whitespace", action: "rewrite", pattern: "\\s{2,}", replacement: " " },
+  ],
+  blocklist: ["gore", "blood bath"],
+  allowlist: ["gore-tex jacket"],
+}
+
+const policy = new PromptPolicy(config)
+const evaluate = (prompt: string, maxLength = 100) => policy.evaluate(prompt, { maxLength })
+const ruleIds = (prompt: string) => evaluate(prompt).rules.map((rule) => rule.ruleId)
+
+describe("PromptPolicy", () => {
+  it("allows prompts that match no rule", () => {
+    expect(evaluate("  a red apple  ")).toEqual({ allowed: true, prompt: "a red apple", rules: [] })
+  })
+
+  describe("rule order", () => {
+    it("runs later rules on the output of earlier redactions", () => {
+      const result = evaluate("mail me@example.com a picture")
+      expect(result.allowed).toBe(false)
+      expect(result.prompt).toBe("mail [EMAIL] a picture")
+      expect(result.rules.map((rule) => rule.ruleId)).toEqual(["email", "no-redacted-email"])
+    })
+
+    it("runs later rules on the output of earlier rewrites", () => {
+      expect(ruleIds("a cat on a sofa")).toEqual(["cat-to-dog", "no-dogs"])
+    })
+
+    it("does not run earlier rules on the output of later rewrites", () => {
+      const result = evaluate("a  cat")
+      expect(result.prompt).toBe("a dog")
+      expect(result.rules.map((rule) => rule.ruleId)).toEqual(["cat-to-dog", "no-dogs", "collapse-whitespace"])
+    })
+
+    it("keeps applying redactions and rewrites after a rejection", () => {
+      const result = evaluate("a dog   and me@example.com")
+      expect(result.allowed).toBe(false)
+      expect(result.prompt).toBe("a dog and [EMAIL]")
+    })
+
+    it("reports the message of reject rules", () => {
+      expect(evaluate("a dog").rules).toEqual([{ ruleId: "no-dogs", action: "reject", message: "No dogs" }])
+    })
+  })
+
+  describe("blocklist", () => {
+    it("rejects blocked terms as whole words, case-insensitively", () => {
+      const result = evaluate("a scene full of GORE")
+      expect(result.allowed).toBe(false)
+      expect(result.rules).toEqual([{ ruleId: "blocklist", action: "reject", message: 'Contains a blocked term: "GORE"' }])
+    })
+
+    it("ignores blocked terms inside other words", () => {
+      expect(evaluate("gorest valley").allowed).toBe(true)
+    })
+
+    it("matches multi-word terms across any whitespace", () => {
+      expect(evaluate("a blood\tbath").allowed).toBe(false)
+    })
+
+    it("exempts allowlisted phrases", () => {
+      expect(evaluate("a man in a gore-tex jacket").allowed).toBe(true)
+    })
+
+    it("still rejects blocked terms outside allowlisted phrases", () => {
+      expect(evaluate("gore on a gore-tex jacket").allowed).toBe(false)
+    })
+  })
+
+  describe("max length", () => {
+    it("rejects prompts over the limit without truncating them", () => {
+      const result = evaluate("a red apple", 5)
+      expect(result.allowed).toBe(false)
+      expect(result.prompt).toBe("a red apple")
+      expect(result.rules).toEqual([{ ruleId: "max-length", action: "reject", message: "Must be at most 5 characters" }])
+    })
+
+    it("measures the prompt without surrounding whitespace", () => {
+      expect(evaluate("  apple  ", 5).allowed).toBe(true)
+    })
+
+    it("still applies the other rules to over-length prompts", () => {
+      expect(policy.evaluate("a cat", { maxLength: 3 }).rules.map((rule) => rule.ruleId)).toEqual([
+        "max-length",
+        "cat-to-dog",
+        "no-dogs",
+      ])
+    })
+  })
+
+  describe("negative prompts", () => {
+    const evaluateNegative = (prompt: string) => policy.evaluate(prompt, { maxLength: 100, negative: true })
+
+    it("skips reject rules and the blocklist", () => {
+      expect(evaluateNegative("gore, a cat")).toEqual({
+        allowed: true,
+        prompt: "gore, a dog",
+        rules: [{ ruleId: "cat-to-dog", action: "rewrite" }],
+      })
+    })
+
+    it("still redacts", () => {
+      expect(evaluateNegative("me@example.com").prompt).toBe("[EMAIL]")
+    })
+
+    it("still enforces the max length", () => {
+      expect(policy.evaluate("blurry", { maxLength: 3, negative: true }).allowed).toBe(false)
+    })
+  })
+})
+
+describe("the shipped prompt policy", () => {
+  it("allows ordinary negative prompts", () => {
+    for (const prompt of ["nsfw, nude, blurry", "no children"]) {
+      expect(promptPolicy.evaluate(prompt, { maxLength: 500, negative: true }).allowed).toBe(true)
+    }
+  })
+
+  it("rejects the same terms in prompts", () => {
+    for (const prompt of ["nsfw, nude, blurry", "no children"]) {
+      expect(promptPolicy.evaluate(prompt, { maxLength: 500 }).allowed).toBe(false)
+    }
+  })
+})
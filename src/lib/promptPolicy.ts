@@ -0,0 +1,108 @@
+import type { PromptRuleAction, PromptRuleMatch } from "../types"
+import policyConfig from "../config/promptPolicy.json"
+
+export interface PromptRule {
+  id: string
+  action: PromptRuleAction
+  // Regular expression source; matched case-insensitively
+  pattern: string
+  // Substitution for redact and rewrite rules
+  replacement?: string
+  // Shown to the user when a reject rule fires
+  message?: string
+}
+
+export interface PromptPolicyConfig {
+  // Applied in order; later rules see the output of earlier redactions and rewrites
+  rules: PromptRule[]
+  // Terms that reject a prompt, matched as whole words
+  blocklist: string[]
+  // Phrases exempt from the blocklist, e.g. "nude lipstick"
+  allowlist: string[]
+}
+
+export interface PromptEvaluationOptions {
+  maxLength: number
+  // Negative prompts name what to keep out of the image, so terms that would
+  // reject a prompt are expected there; only redactions and rewrites apply
+  negative?: boolean
+}
+
+export interface PromptPolicyResult {
+  allowed: boolean
+  // The prompt after redactions and rewrites
+  prompt: string
+  rules: PromptRuleMatch[]
+}
+
+interface CompiledRule extends PromptRule {
+  regex: RegExp
+}
+
+// Checks and cleans user prompts before they reach a model. Holds no other
+// state than its config, so it can be exercised on its own.
+export class PromptPolicy {
+  private rules: CompiledRule[]
+  private blocklist: RegExp[]
+  private allowlist: RegExp[]
+
+  constructor(config: PromptPolicyConfig) {
+    this.rules = config.rules.map((rule) => ({ ...rule, regex: new RegExp(rule.pattern, "gi") }))
+    this.blocklist = config.blocklist.map(wholeWords)
+    this.allowlist = config.allowlist.map(wholeWords)
+  }
+
+  evaluate(prompt: string, options: PromptEvaluationOptions): PromptPolicyResult {
+    const rules: PromptRuleMatch[] = []
+    let text = prompt.trim()
+
+    if (text.length > options.maxLength) {
+      rules.push({
+        ruleId: "max-length",
+        action: "reject",
+        message: `Must be at most ${options.maxLength} characters`,
+      })
+    }
+
+    for (const rule of this.rules) {
+      rule.regex.lastIndex = 0
+      if (!rule.regex.test(text)) continue
+
+      if (rule.action === "reject") {
+        if (options.negative) continue
+        rules.push({ ruleId: rule.id, action: rule.action, message: rule.message })
+        continue
+      }
+
+      const rewritten = text.replace(rule.regex, rule.replacement ?? "")
+      if (rewritten !== text) {
+        rules.push({ ruleId: rule.id, action: rule.action })
+        text = rewritten
+      }
+    }
+
+    if (!options.negative) {
+      // Allowlisted phrases are blanked out before looking for blocked terms
+      const unexempted = this.allowlist.reduce((remaining, phrase) => remaining.replace(phrase, " "), text)
+      for (const term of this.blocklist) {
+        const match = unexempted.match(term)
+        if (match) {
+          rules.push({ ruleId: "blocklist", action: "reject", message: `Contains a blocked term: "${match[0]}"` })
+        }
+      }
+    }
+
+    return {
+      allowed: !rules.some((rule) => rule.action === "reject"),
+      prompt: text.trim(),
+      rules,
+    }
+  }
+}
+
+function wholeWords(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+")
+  return new RegExp(`\\b${escaped}\\b`, "gi")
+}
+
+export const promptPolicy = new PromptPolicy(policyConfig as PromptPolicyConfig)
@@ -0,0 +1,75 @@
+export interface RetryPolicy {
+  // Attempts on one model, including the first
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Share of each backoff delay that is randomized, from 0 (none) to 1 (full jitter)
+  jitter: number
+  // Hand the job to the next capable model once attempts run out
+  failover: boolean
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+  failover: true,
+}
+
+interface ProviderErrorOptions {
+  status?: number
+  retryAfterMs?: number
+  // Overrides the status-based classification, e.g. for provider-side timeouts
+  retryable?: boolean
+}
+
+// Error raised by adapters for failed provider calls, carrying what the
+// scheduler needs to decide whether another attempt is worthwhile
+export class ProviderError extends Error {
+  status?: number
+  retryAfterMs?: number
+  retryable?: boolean
+
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message)
+    this.name = "ProviderError"
+    this.status = options.status
+    this.retryAfterMs = options.retryAfterMs
+    this.retryable = options.retryable
+  }
+}
+
+const RETRYABLE_NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"]
+
+// Transient failures: rate limiting, server errors, timeouts and dropped
+// connections. Cancellation (AbortError) and client errors are final.
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    if (error.retryable !== undefined) return error.retryable
+    if (error.status === undefined) return false
+    return error.status === 408 || error.status === 429 || error.status >= 500
+  }
+
+  if (error instanceof Error) {
+    if (error.name === "TimeoutError") return true
+    if (error.name === "AbortError") return false
+
+    // fetch() reports network failures as a TypeError with the socket error as cause
+    const code = (error as { code?: string }).code ?? (error.cause as { code?: string } | undefined)?.code
+    if (code && RETRYABLE_NETWORK_CODES.includes(code)) return true
+    return error instanceof TypeError && error.message === "fetch failed"
+  }
+
+  return false
+}
+
+// Exponential backoff for the given 1-based attempt, with jitter. A provider's
+// Retry-After takes precedence when it asks for a longer wait.
+export function getBackoffDelay(attempt: number, policy: RetryPolicy, error?: unknown): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  const jittered = exponential * (1 - policy.jitter) + Math.random() * exponential * policy.jitter
+
+  const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined
+  return Math.round(Math.max(jittered, Math.min(retryAfterMs ?? 0, policy.maxDelayMs)))
+}
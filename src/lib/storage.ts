@@ -0,0 +1,69 @@
+import path from "path"
+import type { StorageCategory, StorageProvider } from "../types"
+import { LocalStorageProvider } from "./storage/LocalStorageProvider"
+import { S3StorageProvider } from "./storage/S3StorageProvider"
+import { getImageExtension } from "../utils/imageUtils"
+
+// Backend is selected with STORAGE_PROVIDER:
+//   local (default) - files under STORAGE_LOCAL_DIR (default .data/storage),
+//                     served by /api/storage with URLs signed by STORAGE_SIGNING_SECRET
+//   s3              - bucket S3_BUCKET_NAME, optionally on an S3-compatible S3_ENDPOINT
+function createStorageProvider(): StorageProvider {
+  const backend = process.env.STORAGE_PROVIDER || "local"
+
+  switch (backend) {
+    case "local":
+      return createLocalStorageProvider()
+    case "s3":
+      return createS3StorageProvider()
+    default:
+      console.warn(`Unknown STORAGE_PROVIDER "${backend}", falling back to local`)
+      return createLocalStorageProvider()
+  }
+}
+
+function createLocalStorageProvider(): LocalStorageProvider {
+  let secret = process.env.STORAGE_SIGNING_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("STORAGE_SIGNING_SECRET must be set to use local storage in production")
+    }
+    console.warn("STORAGE_SIGNING_SECRET not found. Signing storage URLs with a development secret.")
+    secret = "development-storage-secret"
+  }
+
+  return new LocalStorageProvider(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), ".data", "storage"), secret)
+}
+
+function createS3StorageProvider(): S3StorageProvider {
+  const bucket = process.env.S3_BUCKET_NAME
+  if (!bucket) {
+    throw new Error("S3_BUCKET_NAME must be set when STORAGE_PROVIDER is s3")
+  }
+
+  const endpoint = process.env.S3_ENDPOINT || undefined
+  const { AWS_ACCESS_KEY_ID: accessKeyId, AWS_SECRET_ACCESS_KEY: secretAccessKey } = process.env
+
+  return new S3StorageProvider({
+    bucket,
+    region: process.env.AWS_REGION || "us-east-1",
+    endpoint,
+    // Custom endpoints are usually MinIO-style servers without per-bucket host names
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === "true" : !!endpoint,
+    // Without explicit keys the SDK's default chain (instance roles etc.) applies
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  })
+}
+
+// New key for a file of the given type, grouped by category and day
+export function createStorageKey(category: StorageCategory, contentType: string): string {
+  const extension = getImageExtension(contentType)
+  if (!extension) {
+    throw new Error(`Unsupported content type for storage: ${contentType}`)
+  }
+
+  const day = new Date().toISOString().slice(0, 10)
+  return `${category}/${day}/${crypto.randomUUID()}.${extension}`
+}
+
+export const storage: StorageProvider = createStorageProvider()
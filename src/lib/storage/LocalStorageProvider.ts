@@ -0,0 +1,144 @@
+import crypto from "crypto"
+import fs from "fs/promises"
+import path from "path"
+import type { SignedUpload, StorageProvider, StoredFile } from "../../types"
+import { getImageContentType } from "../../utils/imageUtils"
+import limits from "../../config/limits.json"
+
+// Files on local disk, served by /api/storage/[...key]. Every URL carries an
+// HMAC signature over the method, key, expiry and (for uploads) content type
+// and length, so links cannot be forged or reused for other files.
+
+export const LOCAL_STORAGE_ROUTE = "/api/storage"
+
+// Keys are slash-separated segments ending in a file name, e.g. uploads/2024-01-01/abc.png
+const KEY_PATTERN = /^[\w-]+(\/[\w-]+)*\/[\w-]+\.[a-z]+$/
+
+interface UploadConstraints {
+  contentType: string
+  contentLength: number
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  constructor(
+    private rootDir: string,
+    private secret: string,
+  ) {}
+
+  async createUpload(key: string, contentType: string, size: number): Promise<SignedUpload> {
+    const expiresAt = new Date(Date.now() + limits.upload.uploadUrlExpiryMinutes * 60 * 1000)
+
+    return {
+      key,
+      uploadUrl: this.signUrl("PUT", key, expiresAt, { contentType, contentLength: size }),
+      fileUrl: await this.getReadUrl(key),
+      expiresAt,
+    }
+  }
+
+  async getReadUrl(key: string): Promise<string> {
+    // Readable for as long as the jobs referencing the file are kept
+    const expiresAt = new Date(Date.now() + limits.jobs.retentionHours * 60 * 60 * 1000)
+    return this.signUrl("GET", key, expiresAt)
+  }
+
+  async put(key: string, data: Buffer): Promise<string> {
+    await this.writeFile(key, data)
+    return this.getReadUrl(key)
+  }
+
+  async read(url: string): Promise<StoredFile | null> {
+    const key = this.getKeyFromUrl(url)
+    return key ? this.readFile(key) : null
+  }
+
+  async exists(url: string): Promise<boolean> {
+    const key = this.getKeyFromUrl(url)
+    if (!key) return false
+
+    try {
+      await fs.access(this.resolvePath(key))
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false
+      throw error
+    }
+  }
+
+  // Checks a request against the signature in its query string
+  verify(method: "GET" | "PUT", key: string, query: Record<string, string | string[] | undefined>): boolean {
+    const expires = Number(query.expires)
+    const signature = typeof query.signature === "string" ? query.signature : ""
+    const upload =
+      method === "PUT"
+        ? { contentType: String(query.contentType), contentLength: Number(query.contentLength) }
+        : undefined
+
+    if (!KEY_PATTERN.test(key) || !Number.isFinite(expires) || expires < Date.now()) return false
+
+    const expected = Buffer.from(this.sign(method, key, expires, upload))
+    const actual = Buffer.from(signature)
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+  }
+
+  async writeFile(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+    // Write next to the target and rename so readers never see partial files
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`
+    await fs.writeFile(tempPath, data)
+    await fs.rename(tempPath, filePath)
+  }
+
+  async readFile(key: string): Promise<StoredFile | null> {
+    try {
+      const data = await fs.readFile(this.resolvePath(key))
+      return { data, contentType: getImageContentType(key) || "application/octet-stream" }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  // Key of a signed, unexpired read URL for this storage, or null
+  private getKeyFromUrl(url: string): string | null {
+    const parsed = new URL(url, "http://localhost")
+    if (!parsed.pathname.startsWith(`${LOCAL_STORAGE_ROUTE}/`)) return null
+
+    const key = decodeURIComponent(parsed.pathname.slice(LOCAL_STORAGE_ROUTE.length + 1))
+    const query = Object.fromEntries(parsed.searchParams)
+    return this.verify("GET", key, query) ? key : null
+  }
+
+  private signUrl(method: "GET" | "PUT", key: string, expiresAt: Date, upload?: UploadConstraints): string {
+    const expires = expiresAt.getTime()
+    const params = new URLSearchParams({ expires: String(expires) })
+    if (upload) {
+      params.set("contentType", upload.contentType)
+      params.set("contentLength", String(upload.contentLength))
+    }
+    params.set("signature", this.sign(method, key, expires, upload))
+
+    return `${LOCAL_STORAGE_ROUTE}/${key}?${params}`
+  }
+
+  private sign(method: string, key: string, expires: number, upload?: UploadConstraints): string {
+    return crypto
+      .createHmac("sha256", this.secret)
+      .update([method, key, expires, upload?.contentType ?? "", upload?.contentLength ?? ""].join("\n"))
+      .digest("base64url")
+  }
+
+  private resolvePath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+
+    const filePath = path.resolve(this.rootDir, key)
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Storage key escapes the storage directory: ${key}`)
+    }
+    return filePath
+  }
+}
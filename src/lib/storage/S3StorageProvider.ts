@@ -0,0 +1,141 @@
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+  type S3ClientConfig,
+} from "@aws-sdk/client-s3"
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
+import type { SignedUpload, StorageProvider, StoredFile } from "../../types"
+import limits from "../../config/limits.json"
+
+// Presigned URLs are capped at seven days by S3
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60
+
+export interface S3StorageConfig {
+  bucket: string
+  region: string
+  // S3-compatible endpoint such as MinIO or R2; AWS when unset
+  endpoint?: string
+  // Address the bucket in the path rather than the host name, as MinIO expects
+  forcePathStyle?: boolean
+  credentials?: S3ClientConfig["credentials"]
+}
+
+// Objects in an S3-compatible bucket. Nothing is public: the browser and the
+// adapters only ever see presigned, expiring URLs.
+export class S3StorageProvider implements StorageProvider {
+  private client: S3Client
+  private bucket: string
+  // Origin and path that presigned URLs for this bucket start with, used to
+  // recognise our own URLs in read()
+  private urlBase: Promise<{ origin: string; pathPrefix: string }> | null = null
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.credentials,
+    })
+  }
+
+  async createUpload(key: string, contentType: string, size: number): Promise<SignedUpload> {
+    const expiresIn = limits.upload.uploadUrlExpiryMinutes * 60
+
+    // Content type and length are part of the signature, so S3 rejects any other file
+    const uploadUrl = await getSignedUrl(
+      this.client,
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, ContentType: contentType, ContentLength: size }),
+      { expiresIn },
+    )
+
+    return {
+      key,
+      uploadUrl,
+      fileUrl: await this.getReadUrl(key),
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    }
+  }
+
+  async getReadUrl(key: string): Promise<string> {
+    const expiresIn = Math.min(limits.jobs.retentionHours * 60 * 60, MAX_PRESIGN_SECONDS)
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), { expiresIn })
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<string> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ContentType: contentType }))
+    return this.getReadUrl(key)
+  }
+
+  async read(url: string): Promise<StoredFile | null> {
+    const key = await this.getKeyFromUrl(url)
+    if (!key) return null
+
+    let object
+    try {
+      object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }))
+    } catch (error) {
+      // Missing or expired objects read as absent, as missing files do in local storage
+      if (isNotFound(error)) return null
+      throw error
+    }
+    if (!object.Body) return null
+
+    return {
+      data: Buffer.from(await object.Body.transformToByteArray()),
+      contentType: object.ContentType || "application/octet-stream",
+    }
+  }
+
+  async exists(url: string): Promise<boolean> {
+    const key = await this.getKeyFromUrl(url)
+    if (!key) return false
+
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }))
+      return true
+    } catch (error) {
+      if (isNotFound(error)) return false
+      throw error
+    }
+  }
+
+  private async getKeyFromUrl(url: string): Promise<string | null> {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return null
+    }
+
+    const { origin, pathPrefix } = await this.getUrlBase()
+    if (parsed.origin !== origin || !parsed.pathname.startsWith(pathPrefix)) return null
+
+    return decodeURIComponent(parsed.pathname.slice(pathPrefix.length)) || null
+  }
+
+  // Path-style and virtual-host URLs differ, so presign a placeholder key and
+  // take everything before it
+  private getUrlBase(): Promise<{ origin: string; pathPrefix: string }> {
+    if (!this.urlBase) {
+      const placeholder = "__key__"
+      this.urlBase = getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: placeholder })).then(
+        (signed) => {
+          const parsed = new URL(signed)
+          return { origin: parsed.origin, pathPrefix: parsed.pathname.slice(0, -placeholder.length) }
+        },
+      )
+    }
+    return this.urlBase
+  }
+}
+
+// GetObject reports missing keys as NoSuchKey; HeadObject has no body to say so and only answers 404
+function isNotFound(error: unknown): boolean {
+  if (error instanceof NoSuchKey) return true
+  return error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404
+}
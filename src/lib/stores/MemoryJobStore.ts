@@ -0,0 +1,56 @@
+import type { Job, JobStore } from "../../types"
+import limits from "../../config/limits.json"
+import { jobEvents } from "../jobEvents"
+import { isTerminalStatus } from "../../utils/jobUtils"
+
+// Process-local job storage. Fast and dependency-free, but jobs are lost on
+// restart and are not shared between Node workers.
+export class MemoryJobStore implements JobStore {
+  private jobs: Map<string, Job> = new Map()
+
+  async create(job: Job): Promise<Job> {
+    this.jobs.set(job.jobId, job)
+    return job
+  }
+
+  async get(jobId: string): Promise<Job | null> {
+    return this.jobs.get(jobId) || null
+  }
+
+  async update(jobId: string, updates: Partial<Job>): Promise<Job | null> {
+    const job = this.jobs.get(jobId)
+    if (!job) return null
+
+    // Finished jobs are immutable; this rejects late writes from a pipeline
+    // that kept running after its job was cancelled
+    if (isTerminalStatus(job.status)) return null
+
+    const updatedJob = {
+      ...job,
+      ...updates,
+      updatedAt: new Date(),
+    }
+
+    this.jobs.set(jobId, updatedJob)
+    jobEvents.publish(updatedJob)
+    return updatedJob
+  }
+
+  async delete(jobId: string): Promise<boolean> {
+    return this.jobs.delete(jobId)
+  }
+
+  async list(): Promise<Job[]> {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  }
+
+  async cleanup(): Promise<void> {
+    // Remove jobs older than the retention window
+    const cutoff = new Date(Date.now() - limits.jobs.retentionHours * 60 * 60 * 1000)
+    for (const [jobId, job] of this.jobs.entries()) {
+      if (job.createdAt < cutoff) {
+        this.jobs.delete(jobId)
+      }
+    }
+  }
+}
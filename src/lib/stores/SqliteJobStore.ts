@@ -0,0 +1,227 @@
+import fs from "fs"
+import path from "path"
+import Database from "better-sqlite3"
+import type { ConsentRecord, Job, JobAttempt, JobStore } from "../../types"
+import limits from "../../config/limits.json"
+import { jobEvents } from "../jobEvents"
+import { isTerminalStatus } from "../../utils/jobUtils"
+
+// File-backed job storage that survives restarts and dev-server reloads.
+// Scheduling, cancellation and job events stay in the process that runs the
+// job, so a single Node process must serve the API on top of one file.
+
+interface JobRow {
+  id: string
+  status: Job["status"]
+  progress: number
+  preview_urls: string
+  final_url: string | null
+  model_id: string
+  created_at: number
+  updated_at: number
+  error_message: string | null
+  eta: number | null
+  queue_position: number | null
+  kind: Job["kind"]
+  params: string
+  resolved_seed: number | null
+  parent_job_id: string | null
+  retry_of_job_id: string | null
+  attempts: string
+  consent: string | null
+}
+
+const COLUMNS: (keyof JobRow)[] = [
+  "id",
+  "status",
+  "progress",
+  "preview_urls",
+  "final_url",
+  "model_id",
+  "created_at",
+  "updated_at",
+  "error_message",
+  "eta",
+  "queue_position",
+  "kind",
+  "params",
+  "resolved_seed",
+  "parent_job_id",
+  "retry_of_job_id",
+  "attempts",
+  "consent",
+]
+
+// Same shape as the Postgres sketch in the README; arrays and objects are
+// stored as JSON text and timestamps as epoch milliseconds.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    progress INTEGER NOT NULL DEFAULT 0,
+    preview_urls TEXT NOT NULL DEFAULT '[]',
+    final_url TEXT,
+    model_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    error_message TEXT,
+    eta INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS jobs_created_at ON jobs (created_at);
+`
+
+// Columns added after the initial schema. They are created on startup when
+// missing so existing database files keep working.
+const ADDED_COLUMNS: Partial<Record<keyof JobRow, string>> = {
+  queue_position: "INTEGER",
+  kind: "TEXT NOT NULL DEFAULT 'generate'",
+  params: "TEXT NOT NULL DEFAULT '{}'",
+  resolved_seed: "INTEGER",
+  parent_job_id: "TEXT",
+  retry_of_job_id: "TEXT",
+  attempts: "TEXT NOT NULL DEFAULT '[]'",
+  consent: "TEXT",
+}
+
+export class SqliteJobStore implements JobStore {
+  private db: Database.Database
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+
+    this.db = new Database(filename)
+    // WAL keeps outside readers, such as a sqlite3 shell inspecting jobs, from
+    // blocking the app's writes
+    this.db.pragma("journal_mode = WAL")
+    this.db.pragma("busy_timeout = 5000")
+    this.db.exec(SCHEMA)
+    this.migrate()
+  }
+
+  async create(job: Job): Promise<Job> {
+    this.db
+      .prepare(`INSERT INTO jobs (${COLUMNS.join(", ")}) VALUES (${COLUMNS.map((c) => `@${c}`).join(", ")})`)
+      .run(toRow(job))
+    return job
+  }
+
+  async get(jobId: string): Promise<Job | null> {
+    const row = this.db.prepare("SELECT * FROM jobs WHERE id = ?").get(jobId) as JobRow | undefined
+    return row ? fromRow(row) : null
+  }
+
+  async update(jobId: string, updates: Partial<Job>): Promise<Job | null> {
+    // Read-modify-write inside one transaction, so an update is applied whole
+    // or not at all
+    const apply = this.db.transaction((): Job | null => {
+      const row = this.db.prepare("SELECT * FROM jobs WHERE id = ?").get(jobId) as JobRow | undefined
+      if (!row) return null
+
+      // Finished jobs are immutable; this rejects late writes from a pipeline
+      // that kept running after its job was cancelled
+      if (isTerminalStatus(row.status)) return null
+
+      const updatedJob = {
+        ...fromRow(row),
+        ...updates,
+        jobId,
+        updatedAt: new Date(),
+      }
+
+      this.db
+        .prepare(
+          `UPDATE jobs SET ${COLUMNS.filter((c) => c !== "id")
+            .map((c) => `${c} = @${c}`)
+            .join(", ")} WHERE id = @id`,
+        )
+        .run(toRow(updatedJob))
+
+      return updatedJob
+    })
+
+    const updatedJob = apply()
+    if (updatedJob) jobEvents.publish(updatedJob)
+    return updatedJob
+  }
+
+  async delete(jobId: string): Promise<boolean> {
+    return this.db.prepare("DELETE FROM jobs WHERE id = ?").run(jobId).changes > 0
+  }
+
+  async list(): Promise<Job[]> {
+    const rows = this.db.prepare("SELECT * FROM jobs ORDER BY created_at DESC").all() as JobRow[]
+    return rows.map(fromRow)
+  }
+
+  async cleanup(): Promise<void> {
+    // Remove jobs older than the retention window
+    const cutoff = Date.now() - limits.jobs.retentionHours * 60 * 60 * 1000
+    this.db.prepare("DELETE FROM jobs WHERE created_at < ?").run(cutoff)
+  }
+
+  private migrate() {
+    const existing = new Set(
+      (this.db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[]).map((column) => column.name),
+    )
+
+    for (const [column, type] of Object.entries(ADDED_COLUMNS)) {
+      if (!existing.has(column)) {
+        this.db.exec(`ALTER TABLE jobs ADD COLUMN ${column} ${type}`)
+      }
+    }
+  }
+}
+
+function toRow(job: Job): JobRow {
+  return {
+    id: job.jobId,
+    status: job.status,
+    progress: job.progress,
+    preview_urls: JSON.stringify(job.previewUrls),
+    final_url: job.finalUrl ?? null,
+    model_id: job.modelId,
+    created_at: job.createdAt.getTime(),
+    updated_at: job.updatedAt.getTime(),
+    error_message: job.error ?? null,
+    eta: job.eta ?? null,
+    queue_position: job.queuePosition ?? null,
+    kind: job.kind,
+    params: JSON.stringify(job.params),
+    resolved_seed: job.resolvedSeed ?? null,
+    parent_job_id: job.parentJobId ?? null,
+    retry_of_job_id: job.retryOfJobId ?? null,
+    attempts: JSON.stringify(job.attempts ?? []),
+    consent: job.consent ? JSON.stringify(job.consent) : null,
+  }
+}
+
+function fromRow(row: JobRow): Job {
+  return {
+    jobId: row.id,
+    status: row.status,
+    progress: row.progress,
+    previewUrls: JSON.parse(row.preview_urls),
+    finalUrl: row.final_url ?? undefined,
+    modelId: row.model_id,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    error: row.error_message ?? undefined,
+    eta: row.eta ?? undefined,
+    queuePosition: row.queue_position ?? undefined,
+    kind: row.kind,
+    params: JSON.parse(row.params),
+    resolvedSeed: row.resolved_seed ?? undefined,
+    parentJobId: row.parent_job_id ?? undefined,
+    retryOfJobId: row.retry_of_job_id ?? undefined,
+    attempts: (JSON.parse(row.attempts) as JobAttempt[]).map((attempt) => ({
+      ...attempt,
+      startedAt: new Date(attempt.startedAt),
+    })),
+    consent: row.consent ? fromConsentJson(row.consent) : undefined,
+  }
+}
+
+function fromConsentJson(json: string): ConsentRecord {
+  const consent = JSON.parse(json) as ConsentRecord
+  return { ...consent, attestedAt: new Date(consent.attestedAt) }
+}
@@ -0,0 +1,227 @@
+import { z } from "zod"
+import type { Mode, PromptRuleMatch, UploadCategory, ValidationErrorResponse } from "../types"
+import { modelRegistry } from "./modelRegistry"
+import { promptPolicy } from "./promptPolicy"
+import { storage } from "./storage"
+import { findMode } from "../utils/modeUtils"
+import { parseDataUrl } from "../utils/imageUtils"
+import limits from "../config/limits.json"
+import modes from "../config/modes.json"
+
+// Request schemas shared by the API routes. Parsing strips unknown fields, so
+// the parsed data is also the sanitized request recorded on the job.
+
+const modeIds = (modes as Mode[]).map((mode) => mode.id)
+const sizes = limits.generation.defaultResolutions.map((resolution) => `${resolution.width}x${resolution.height}`)
+const aspectRatios = Array.from(new Set(limits.generation.defaultResolutions.map((resolution) => resolution.aspect)))
+
+const optionalId = z.string().trim().min(1).optional()
+
+const generationFields = {
+  prompt: z
+    .string({ required_error: "Prompt is required" })
+    .trim()
+    .min(1, "Prompt is required")
+    .max(limits.generation.maxPromptLength, `Prompt must be at most ${limits.generation.maxPromptLength} characters`),
+  negativePrompt: z
+    .string()
+    .trim()
+    .max(
+      limits.generation.maxNegativePromptLength,
+      `Negative prompt must be at most ${limits.generation.maxNegativePromptLength} characters`,
+    )
+    .optional(),
+  mode: z
+    .string({ required_error: "Mode is required" })
+    .refine((mode) => modeIds.includes(mode), { message: `Mode must be one of: ${modeIds.join(", ")}` }),
+  size: z
+    .string({ required_error: "Size is required" })
+    .refine((size) => sizes.includes(size), { message: `Size must be one of: ${sizes.join(", ")}` }),
+  aspectRatio: z
+    .string({ required_error: "Aspect ratio is required" })
+    .refine((aspect) => aspectRatios.includes(aspect), {
+      message: `Aspect ratio must be one of: ${aspectRatios.join(", ")}`,
+    }),
+  strength: z.number().min(0, "Strength must be between 0 and 1").max(1, "Strength must be between 0 and 1").optional(),
+  seed: z
+    .number()
+    .int("Seed must be an integer")
+    .min(0, "Seed must not be negative")
+    .max(limits.generation.maxSeed, `Seed must be at most ${limits.generation.maxSeed}`)
+    .optional(),
+  modelId: optionalId,
+  retryOfJobId: optionalId,
+}
+
+// Adapters read input images on the server, and only from base64 data: URLs
+// or files our storage issued, never from arbitrary hosts
+function serverReadableUrl(label: string) {
+  return z
+    .string({ required_error: `${label} is required` })
+    .min(1, `${label} is required`)
+    .refine(async (url) => !url || !!parseDataUrl(url) || (await storage.exists(url)), {
+      message: `${label} must be uploaded first or sent as a base64 data: URL`,
+    })
+}
+
+// A pinned model must be registered and large enough for the requested size
+function checkModel(params: { modelId?: string; size: string }, ctx: z.RefinementCtx) {
+  if (!params.modelId) return
+
+  const model = modelRegistry.getModel(params.modelId)
+  if (!model) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["modelId"], message: "Unknown or unavailable model" })
+    return
+  }
+
+  const [width, height] = params.size.split("x").map(Number)
+  const [maxWidth, maxHeight] = model.capabilities.maxResolution.split("x").map(Number)
+  if (width > maxWidth || height > maxHeight) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["size"],
+      message: `Size exceeds ${model.name}'s maximum resolution of ${model.capabilities.maxResolution}`,
+    })
+  }
+}
+
+export const generationRequestSchema = z.object(generationFields).superRefine(checkModel)
+
+// Modes that edit photos of real people need an attestation of the
+// statement version currently in modes.json
+function checkConsent(params: { mode: string; consent?: { version: string } }, ctx: z.RefinementCtx) {
+  const policy = findMode(params.mode)?.requiresConsent
+  if (!policy) return
+
+  if (!params.consent) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["consent"],
+      message: "This mode edits photos of real people; confirm you have their consent",
+    })
+  } else if (params.consent.version !== policy.version) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["consent"],
+      message: "The consent statement has changed; please review and confirm it again",
+    })
+  }
+}
+
+export const editRequestSchema = z
+  .object({
+    ...generationFields,
+    imageUrl: serverReadableUrl("Image"),
+    maskUrl: serverReadableUrl("Mask"),
+    parentJobId: optionalId,
+    consent: z
+      .object({
+        attested: z.literal(true, { errorMap: () => ({ message: "Consent must be attested" }) }),
+        version: z.string().min(1),
+      })
+      .optional(),
+  })
+  .superRefine(checkModel)
+  .superRefine(checkConsent)
+
+const uploadCategories: [UploadCategory, ...UploadCategory[]] = ["uploads", "masks"]
+
+export const uploadRequestSchema = z.object({
+  filename: z
+    .string({ required_error: "Filename is required" })
+    .trim()
+    .min(1, "Filename is required")
+    .max(255, "Filename must be at most 255 characters"),
+  contentType: z
+    .string({ required_error: "Content type is required" })
+    .refine((type) => limits.upload.allowedFormats.includes(type), {
+      message: `Content type must be one of: ${limits.upload.allowedFormats.join(", ")}`,
+    }),
+  // File size in bytes; the signed URL only accepts a file of exactly this size
+  size: z
+    .number({ required_error: "Size is required" })
+    .int()
+    .positive()
+    .max(limits.upload.maxSizeBytes, `File must be at most ${limits.upload.maxSizeBytes} bytes`),
+  category: z
+    .enum(uploadCategories, { errorMap: () => ({ message: `Category must be one of: ${uploadCategories.join(", ")}` }) })
+    .default("uploads"),
+})
+
+export type UploadRequest = z.infer<typeof uploadRequestSchema>
+
+type ValidationResult<T> = { success: true; data: T } | { success: false; error: ValidationErrorResponse }
+
+// Parses a request body, collecting every failing field into a 400 response body
+export async function validateRequest<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  body: unknown,
+): Promise<ValidationResult<T>> {
+  const result = await schema.safeParseAsync(body ?? {})
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of result.error.issues) {
+    const field = issue.path.join(".") || "body"
+    fieldErrors[field] = [...(fieldErrors[field] ?? []), issue.message]
+  }
+
+  return {
+    success: false,
+    error: {
+      error: `Invalid request: ${Object.keys(fieldErrors).join(", ")}`,
+      fieldErrors,
+    },
+  }
+}
+
+// Runs the prompt policy over both prompts. Redactions and rewrites are
+// applied to the returned prompts; any reject rule fails the request. Reject
+// rules and the blocklist only apply to the prompt, not the negative prompt.
+export function validatePrompts(fields: {
+  prompt: string
+  negativePrompt?: string
+}): ValidationResult<{ prompt: string; negativePrompt?: string }> {
+  const prompt = promptPolicy.evaluate(fields.prompt, { maxLength: limits.generation.maxPromptLength })
+  const negativePrompt =
+    fields.negativePrompt !== undefined
+      ? promptPolicy.evaluate(fields.negativePrompt, {
+          maxLength: limits.generation.maxNegativePromptLength,
+          negative: true,
+        })
+      : null
+
+  const fieldErrors: Record<string, string[]> = {}
+  const rules: PromptRuleMatch[] = []
+  for (const [field, result] of [
+    ["prompt", prompt],
+    ["negativePrompt", negativePrompt],
+  ] as const) {
+    if (!result || result.allowed) continue
+
+    const rejections = result.rules.filter((rule) => rule.action === "reject")
+    fieldErrors[field] = rejections.map((rule) => rule.message || `Rejected by rule ${rule.ruleId}`)
+    rules.push(...result.rules)
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return {
+      success: false,
+      error: {
+        error: `Prompt rejected: ${Object.keys(fieldErrors).join(", ")}`,
+        fieldErrors,
+        rules,
+      },
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      prompt: prompt.prompt,
+      negativePrompt: negativePrompt?.prompt || undefined,
+    },
+  }
+}
@@ -1,40 +1,132 @@
 import type { NextApiRequest, NextApiResponse } from "next"
-import { modelRegistry } from "../../lib/modelRegistry"
-import type { EditParams, Job } from "../../types"
+import { modelRegistry, describeRequirements } from "../../lib/modelRegistry"
+import { jobScheduler } from "../../lib/jobScheduler"
+import { jobStore } from "../../lib/jobStore"
+import { storage, createStorageKey } from "../../lib/storage"
+import { validateRequest, validatePrompts, editRequestSchema } from "../../lib/validation"
+import { findMode } from "../../utils/modeUtils"
+import { detectImageType, getImageDimensions, parseDataUrl } from "../../utils/imageUtils"
+import {
+  InvalidRequestBodyError,
+  PayloadTooLargeError,
+  readFormData,
+  readJsonBody,
+} from "../../utils/requestUtils"
+import type { ConsentRecord, EditParams, Job, UploadCategory, ValidationErrorResponse } from "../../types"
+import limits from "../../config/limits.json"
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse<Job | { error: string }>) {
+// Bodies are read here so multipart requests can carry the image and mask as parts
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
+
+// Next's default JSON body limit; images belong in uploads or multipart parts
+const MAX_JSON_BYTES = 1024 * 1024
+// An image and a mask at the upload limit, plus the text fields
+const MAX_MULTIPART_BYTES = limits.upload.maxSizeBytes * 2 + MAX_JSON_BYTES
+
+// Multipart fields that are not strings in EditParams
+const NUMBER_FIELDS = ["strength", "seed"]
+const JSON_FIELDS = ["consent"]
+
+// An image or mask part, kept in memory until the request is accepted
+interface FormImage {
+  field: "imageUrl" | "maskUrl"
+  category: UploadCategory
+  data: Buffer
+  contentType: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Job | ValidationErrorResponse | { error: string }>,
+) {
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" })
   }
 
   try {
-    const params: EditParams = req.body
+    const form = req.headers["content-type"]?.startsWith("multipart/form-data")
+      ? await readEditForm(await readFormData(req, MAX_MULTIPART_BYTES))
+      : null
+    const body = form ? form.body : await readJsonBody(req, MAX_JSON_BYTES)
+
+    const validation = await validateRequest(editRequestSchema, body)
+    if (!validation.success) {
+      return res.status(400).json(validation.error)
+    }
+    const params: EditParams = validation.data
 
-    // Validate required fields
-    if (!params.prompt || !params.mode || !params.imageUrl || !params.maskUrl) {
-      return res.status(400).json({
-        error: "Missing required fields: prompt, mode, imageUrl, maskUrl",
+    // Edits of a previous result and retries must point at jobs we know about
+    if (params.parentJobId && !(await jobStore.get(params.parentJobId))) {
+      return res.status(400).json({ error: `Unknown parentJobId: ${params.parentJobId}` })
+    }
+    if (params.retryOfJobId && !(await jobStore.get(params.retryOfJobId))) {
+      return res.status(400).json({ error: `Unknown retryOfJobId: ${params.retryOfJobId}` })
+    }
+
+    // Inpainting providers need the mask to cover the image pixel for pixel
+    const dimensionError = await checkMaskDimensions(params.imageUrl, params.maskUrl)
+    if (dimensionError) {
+      return res.status(400).json({ error: dimensionError, fieldErrors: { maskUrl: [dimensionError] } })
+    }
+
+    // Redact PII and reject prompts that break the prompt policy
+    const prompts = validatePrompts(params)
+    if (!prompts.success) {
+      return res.status(400).json(prompts.error)
+    }
+
+    // The schema already dropped unknown fields; this is the request recorded on the job
+    const sanitizedParams: EditParams = { ...params, ...prompts.data }
+
+    // Use the requested model (validated above), or route to the best
+    // registered one that can serve the mode and size
+    const requestedModel = params.modelId ? modelRegistry.getModel(params.modelId) : null
+    const model = requestedModel || modelRegistry.selectModel("edit", sanitizedParams)
+    if (!model || !modelRegistry.canServe(model, "edit", sanitizedParams)) {
+      const requirements = describeRequirements(modelRegistry.getRequirements("edit", sanitizedParams))
+      return res.status(422).json({
+        error: requestedModel
+          ? `Model ${requestedModel.id} cannot serve mode "${params.mode}" (requires ${requirements})`
+          : `No available model can serve mode "${params.mode}" (requires ${requirements})`,
       })
     }
 
-    // Sanitize prompt
-    const sanitizedParams = {
-      ...params,
-      prompt: sanitizePrompt(params.prompt),
-      negativePrompt: params.negativePrompt ? sanitizePrompt(params.negativePrompt) : undefined,
+    // The schema has checked the attestation; record what was agreed to and when
+    const consentPolicy = findMode(params.mode)?.requiresConsent
+    const consent: ConsentRecord | undefined = consentPolicy && {
+      version: consentPolicy.version,
+      statement: consentPolicy.statement,
+      attestedAt: new Date(),
     }
 
-    // Get appropriate adapter for the mode
-    const adapter = modelRegistry.getAdapterForMode(params.mode)
+    // Multipart images were validated as data: URLs; only accepted requests store them
+    for (const image of form?.images ?? []) {
+      sanitizedParams[image.field] = await storage.put(
+        createStorageKey(image.category, image.contentType),
+        image.data,
+        image.contentType,
+      )
+    }
 
-    // Start editing
-    const job = await adapter.edit(sanitizedParams)
+    // Queue the job; the scheduler starts it once the model has a free slot
+    const job = await jobScheduler.submitEdit(model.id, sanitizedParams, consent)
 
     // Log editing request (without PII)
     console.log(`Editing started: ${job.jobId}, mode: ${params.mode}, model: ${job.modelId}`)
 
     res.status(200).json(job)
   } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return res.status(413).json({ error: error.message })
+    }
+    if (error instanceof InvalidRequestBodyError) {
+      return res.status(400).json({ error: error.message })
+    }
+
     console.error("Editing error:", error)
     res.status(500).json({
       error: error instanceof Error ? error.message : "Editing failed",
@@ -42,17 +134,76 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
   }
 }
 
-function sanitizePrompt(prompt: string): string {
-  // Same sanitization logic as generate.ts
-  let sanitized = prompt.trim()
+// Turns a multipart edit request into the JSON body shape. The `image` and
+// `mask` parts stand in for imageUrl and maskUrl as data: URLs, so the request
+// is validated before anything is written to storage.
+async function readEditForm(form: FormData): Promise<{ body: Record<string, unknown>; images: FormImage[] }> {
+  const body: Record<string, unknown> = {}
+  const images: FormImage[] = []
+
+  for (const [name, value] of form) {
+    if (typeof value !== "string" || value === "") continue
+
+    if (NUMBER_FIELDS.includes(name)) {
+      body[name] = Number(value)
+    } else if (JSON_FIELDS.includes(name)) {
+      try {
+        body[name] = JSON.parse(value)
+      } catch {
+        throw new InvalidRequestBodyError(`Field "${name}" must be valid JSON`)
+      }
+    } else {
+      body[name] = value
+    }
+  }
+
+  for (const [part, field, category, label] of [
+    ["image", "imageUrl", "uploads", "Image"],
+    ["mask", "maskUrl", "masks", "Mask"],
+  ] as const) {
+    const file = form.get(part)
+    if (!file || typeof file === "string") continue
+
+    const image = await readFormImage(file, label)
+    images.push({ field, category, ...image })
+    body[field] = `data:${image.contentType};base64,${image.data.toString("base64")}`
+  }
+
+  return { body, images }
+}
+
+async function readFormImage(file: Blob, label: string): Promise<{ data: Buffer; contentType: string }> {
+  if (file.size > limits.upload.maxSizeBytes) {
+    throw new InvalidRequestBodyError(`${label} must be at most ${limits.upload.maxSizeBytes} bytes`)
+  }
 
-  sanitized = sanitized.replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, "[EMAIL]")
-  sanitized = sanitized.replace(/\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, "[PHONE]")
-  sanitized = sanitized.replace(/\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, "[CARD]")
+  // Checked by content, as the storage route does for signed uploads
+  const data = Buffer.from(await file.arrayBuffer())
+  const contentType = detectImageType(data)
+  if (!contentType || !limits.upload.allowedFormats.includes(contentType)) {
+    throw new InvalidRequestBodyError(`${label} must be one of: ${limits.upload.allowedFormats.join(", ")}`)
+  }
 
-  if (sanitized.length > 500) {
-    sanitized = sanitized.substring(0, 500) + "..."
+  return { data, contentType }
+}
+
+async function checkMaskDimensions(imageUrl: string, maskUrl: string): Promise<string | null> {
+  const [image, mask] = await Promise.all([readImageData(imageUrl), readImageData(maskUrl)])
+  if (!image || !mask) return null
+
+  const imageSize = getImageDimensions(image)
+  const maskSize = getImageDimensions(mask)
+  if (!imageSize || !maskSize) return null
+
+  if (imageSize.width !== maskSize.width || imageSize.height !== maskSize.height) {
+    return `Mask is ${maskSize.width}x${maskSize.height} but the image is ${imageSize.width}x${imageSize.height}`
   }
+  return null
+}
 
-  return sanitized
+// The schema only lets data: URLs and our own storage URLs through
+async function readImageData(url: string): Promise<Buffer | null> {
+  const dataUrl = parseDataUrl(url)
+  if (dataUrl) return Buffer.from(dataUrl.data, "base64")
+  return (await storage.read(url))?.data ?? null
 }
@@ -1,32 +1,54 @@
 import type { NextApiRequest, NextApiResponse } from "next"
-import { modelRegistry } from "../../lib/modelRegistry"
-import type { GenerationParams, Job } from "../../types"
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse<Job | { error: string }>) {
+import { modelRegistry, describeRequirements } from "../../lib/modelRegistry"
+import { jobScheduler } from "../../lib/jobScheduler"
+import { jobStore } from "../../lib/jobStore"
+import { validateRequest, validatePrompts, generationRequestSchema } from "../../lib/validation"
+import type { GenerationParams, Job, ValidationErrorResponse } from "../../types"
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Job | ValidationErrorResponse | { error: string }>,
+) {
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" })
   }
 
   try {
-    const params: GenerationParams = req.body
+    const validation = await validateRequest(generationRequestSchema, req.body)
+    if (!validation.success) {
+      return res.status(400).json(validation.error)
+    }
+    const params: GenerationParams = validation.data
 
-    // Validate required fields
-    if (!params.prompt || !params.mode) {
-      return res.status(400).json({ error: "Missing required fields: prompt, mode" })
+    // Retries must point at a job we know about
+    if (params.retryOfJobId && !(await jobStore.get(params.retryOfJobId))) {
+      return res.status(400).json({ error: `Unknown retryOfJobId: ${params.retryOfJobId}` })
     }
 
-    // Sanitize prompt (remove PII, inappropriate content)
-    const sanitizedParams = {
-      ...params,
-      prompt: sanitizePrompt(params.prompt),
-      negativePrompt: params.negativePrompt ? sanitizePrompt(params.negativePrompt) : undefined,
+    // Redact PII and reject prompts that break the prompt policy
+    const prompts = validatePrompts(params)
+    if (!prompts.success) {
+      return res.status(400).json(prompts.error)
     }
 
-    // Get appropriate adapter for the mode
-    const adapter = modelRegistry.getAdapterForMode(params.mode)
+    // The schema already dropped unknown fields; this is the request recorded on the job
+    const sanitizedParams: GenerationParams = { ...params, ...prompts.data }
+
+    // Use the requested model (validated above), or route to the best
+    // registered one that can serve the mode and size
+    const requestedModel = params.modelId ? modelRegistry.getModel(params.modelId) : null
+    const model = requestedModel || modelRegistry.selectModel("generate", sanitizedParams)
+    if (!model || !modelRegistry.canServe(model, "generate", sanitizedParams)) {
+      const requirements = describeRequirements(modelRegistry.getRequirements("generate", sanitizedParams))
+      return res.status(422).json({
+        error: requestedModel
+          ? `Model ${requestedModel.id} cannot serve mode "${params.mode}" (requires ${requirements})`
+          : `No available model can serve mode "${params.mode}" (requires ${requirements})`,
+      })
+    }
 
-    // Start generation
-    const job = await adapter.generate(sanitizedParams)
+    // Queue the job; the scheduler starts it once the model has a free slot
+    const job = await jobScheduler.submitGeneration(model.id, sanitizedParams)
 
     // Log generation request (without PII)
     console.log(`Generation started: ${job.jobId}, mode: ${params.mode}, model: ${job.modelId}`)
@@ -39,24 +61,3 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     })
   }
 }
-
-function sanitizePrompt(prompt: string): string {
-  // Remove potential PII and inappropriate content
-  let sanitized = prompt.trim()
-
-  // Remove email addresses
-  sanitized = sanitized.replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, "[EMAIL]")
-
-  // Remove phone numbers (basic pattern)
-  sanitized = sanitized.replace(/\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, "[PHONE]")
-
-  // Remove potential credit card numbers
-  sanitized = sanitized.replace(/\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, "[CARD]")
-
-  // Limit length
-  if (sanitized.length > 500) {
-    sanitized = sanitized.substring(0, 500) + "..."
-  }
-
-  return sanitized
-}
@@ -1,8 +1,13 @@
 import type { NextApiRequest, NextApiResponse } from "next"
 import { jobStore } from "../../../lib/jobStore"
+import { jobScheduler } from "../../../lib/jobScheduler"
+import { isTerminalStatus } from "../../../utils/jobUtils"
 import type { Job } from "../../../types"
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse<Job | { error: string }>) {
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Job | { message: string } | { error: string }>,
+) {
   const { id } = req.query
 
   if (typeof id !== "string") {
@@ -23,15 +28,34 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       res.status(500).json({ error: "Failed to get job status" })
     }
   } else if (req.method === "DELETE") {
-    // Cancel job
+    // Cancel job, or remove its record entirely with ?purge=true
     try {
-      const success = await jobStore.delete(id)
+      const job = await jobStore.get(id)
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" })
+      }
+
+      if (req.query.purge === "true") {
+        if (!isTerminalStatus(job.status)) {
+          await jobScheduler.cancel(id)
+        }
+        await jobStore.delete(id)
+
+        return res.status(200).json({ message: "Job purged" })
+      }
+
+      if (isTerminalStatus(job.status)) {
+        return res.status(409).json({ error: `Job already ${job.status}` })
+      }
 
-      if (!success) {
+      const cancelledJob = await jobScheduler.cancel(id)
+
+      if (!cancelledJob) {
         return res.status(404).json({ error: "Job not found" })
       }
 
-      res.status(200).json({ message: "Job cancelled" } as any)
+      res.status(200).json(cancelledJob)
     } catch (error) {
       console.error("Job cancellation error:", error)
       res.status(500).json({ error: "Failed to cancel job" })
@@ -40,33 +64,3 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     res.status(405).json({ error: "Method not allowed" })
   }
 }
-
-// TODO: For production, consider implementing WebSocket or Server-Sent Events for real-time updates
-/*
-// Example WebSocket implementation:
-import { Server as SocketIOServer } from 'socket.io'
-import { Server as NetServer } from 'http'
-import { NextApiResponse } from 'next'
-
-interface NextApiResponseServerIO extends NextApiResponse {
-  socket: {
-    server: NetServer & {
-      io: SocketIOServer
-    }
-  }
-}
-
-// In your job processing logic:
-function notifyJobUpdate(jobId: string, job: Job) {
-  if (global.io) {
-    global.io.to(`job-${jobId}`).emit('job-update', job)
-  }
-}
-
-// Client-side connection:
-const socket = io()
-socket.emit('join-job', jobId)
-socket.on('job-update', (job) => {
-  // Update UI with job status
-})
-*/
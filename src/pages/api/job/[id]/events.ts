@@ -0,0 +1,108 @@
+import type { NextApiRequest, NextApiResponse } from "next"
+import { jobStore } from "../../../../lib/jobStore"
+import { jobEvents } from "../../../../lib/jobEvents"
+import { isTerminalStatus } from "../../../../utils/jobUtils"
+import type { Job } from "../../../../types"
+
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// The stream outlives the handler's promise; tell Next the response is not forgotten
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+}
+
+// Server-Sent Events stream of Job snapshots. A snapshot is sent on connect and
+// after every store update; the stream ends once the job reaches a terminal
+// status.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid job ID" })
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" })
+  }
+
+  let closed = false
+  let lastUpdatedAt = 0
+  let heartbeat: NodeJS.Timeout | undefined
+
+  const close = () => {
+    if (closed) return
+    closed = true
+    unsubscribe()
+    clearInterval(heartbeat)
+    res.end()
+  }
+
+  const send = (job: Job) => {
+    if (closed) return
+
+    lastUpdatedAt = new Date(job.updatedAt).getTime()
+    res.write(`data: ${JSON.stringify(job)}\n\n`)
+
+    if (isTerminalStatus(job.status)) close()
+  }
+
+  // Subscribe before reading the initial snapshot so no update can slip in
+  // between. Updates that arrive before the headers are written wait here.
+  let streaming = false
+  const pending: Job[] = []
+  const unsubscribe = jobEvents.subscribe(id, (job) => {
+    if (streaming) send(job)
+    else pending.push(job)
+  })
+
+  try {
+    const job = await jobStore.get(id)
+
+    if (!job) {
+      unsubscribe()
+      return res.status(404).json({ error: "Job not found" })
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Keep Next's gzip and reverse proxies from buffering the stream
+      "Content-Encoding": "none",
+      "X-Accel-Buffering": "no",
+    })
+
+    // The snapshot may be older than an update that arrived while it was read
+    streaming = true
+    const latest = pending.at(-1)
+    send(latest && new Date(latest.updatedAt) >= new Date(job.updatedAt) ? latest : job)
+  } catch (error) {
+    console.error("Job events error:", error)
+    unsubscribe()
+    return res.status(500).json({ error: "Failed to get job status" })
+  }
+
+  if (closed) return
+
+  heartbeat = setInterval(async () => {
+    res.write(": heartbeat\n\n")
+
+    // Updates published on another copy of the event bus, as a dev-server
+    // reload can leave behind, never reach this subscription, so re-check the
+    // store on every heartbeat
+    try {
+      const job = await jobStore.get(id)
+      if (!job) {
+        close()
+      } else if (new Date(job.updatedAt).getTime() > lastUpdatedAt) {
+        send(job)
+      }
+    } catch (error) {
+      console.error("Job events heartbeat error:", error)
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+
+  req.on("close", close)
+}
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next"
 import { modelRegistry } from "../../lib/modelRegistry"
+import type { ModelInfo } from "../../types"
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "GET") {
@@ -10,7 +11,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const models = modelRegistry.getAvailableModels()
 
     // Remove sensitive adapter information
-    const publicModels = models.map((model) => ({
+    const publicModels = models.map((model): ModelInfo => ({
       id: model.id,
       name: model.name,
       provider: model.provider,
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next"
+import { storage } from "../../../lib/storage"
+import { LocalStorageProvider } from "../../../lib/storage/LocalStorageProvider"
+import { detectImageType } from "../../../utils/imageUtils"
+import { PayloadTooLargeError, readRequestBody } from "../../../utils/requestUtils"
+import limits from "../../../config/limits.json"
+
+// Uploads arrive as raw image bytes
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
+
+// Serves signed PUT and GET URLs issued by the local storage provider
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(storage instanceof LocalStorageProvider)) {
+    return res.status(404).json({ error: "Local storage is not enabled" })
+  }
+
+  if (req.method !== "GET" && req.method !== "PUT") {
+    return res.status(405).json({ error: "Method not allowed" })
+  }
+
+  const key = Array.isArray(req.query.key) ? req.query.key.join("/") : ""
+  if (!storage.verify(req.method, key, req.query)) {
+    return res.status(403).json({ error: "Invalid or expired signature" })
+  }
+
+  try {
+    if (req.method === "GET") {
+      const file = await storage.readFile(key)
+      if (!file) {
+        return res.status(404).json({ error: "File not found" })
+      }
+
+      res.setHeader("Content-Type", file.contentType)
+      res.setHeader("Cache-Control", "private, max-age=3600")
+      return res.status(200).send(file.data)
+    }
+
+    // The upload must be the type and size the URL was signed for, both as declared and as sent
+    const contentType = req.query.contentType
+    if (req.headers["content-type"] !== contentType) {
+      return res.status(400).json({ error: `Content-Type must be ${contentType}` })
+    }
+
+    const data = await readRequestBody(req, limits.upload.maxSizeBytes)
+    if (data.length !== Number(req.query.contentLength)) {
+      return res.status(400).json({ error: `File must be exactly ${req.query.contentLength} bytes` })
+    }
+    if (detectImageType(data) !== contentType) {
+      return res.status(400).json({ error: `File content is not ${contentType}` })
+    }
+
+    await storage.writeFile(key, data)
+    res.status(200).json({ key })
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      return res.status(413).json({ error: error.message })
+    }
+
+    console.error("Storage error:", error)
+    res.status(500).json({ error: "Storage request failed" })
+  }
+}
@@ -1,67 +1,27 @@
 import type { NextApiRequest, NextApiResponse } from "next"
-
-interface UploadUrlRequest {
-  filename: string
-  contentType: string
-}
-
-interface UploadUrlResponse {
-  uploadUrl: string
-  fileUrl: string
-}
+import { storage, createStorageKey } from "../../lib/storage"
+import { validateRequest, uploadRequestSchema } from "../../lib/validation"
+import type { SignedUpload, ValidationErrorResponse } from "../../types"
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<UploadUrlResponse | { error: string }>,
+  res: NextApiResponse<SignedUpload | ValidationErrorResponse | { error: string }>,
 ) {
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" })
   }
 
   try {
-    const { filename, contentType }: UploadUrlRequest = req.body
-
-    // Validate input
-    if (!filename || !contentType) {
-      return res.status(400).json({ error: "Missing filename or contentType" })
+    const validation = await validateRequest(uploadRequestSchema, req.body)
+    if (!validation.success) {
+      return res.status(400).json(validation.error)
     }
+    const { contentType, size, category } = validation.data
 
-    // Validate content type
-    const allowedTypes = ["image/jpeg", "image/png", "image/webp"]
-    if (!allowedTypes.includes(contentType)) {
-      return res.status(400).json({ error: "Invalid content type" })
-    }
-
-    // TODO: Replace with actual signed URL generation
-    // For production, integrate with your storage provider (S3, CloudFlare R2, etc.)
-    /*
-    // Example with AWS S3:
-    const s3 = new AWS.S3({
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-      region: process.env.AWS_REGION
-    })
-
-    const key = `uploads/${Date.now()}-${filename}`
-    const uploadUrl = await s3.getSignedUrlPromise('putObject', {
-      Bucket: process.env.S3_BUCKET_NAME,
-      Key: key,
-      ContentType: contentType,
-      Expires: 3600, // 1 hour
-      ACL: 'public-read'
-    })
-
-    const fileUrl = `https://${process.env.S3_BUCKET_NAME}.s3.${process.env.AWS_REGION}.amazonaws.com/${key}`
-    */
-
-    // For MVP, return mock signed URLs
-    const mockUploadUrl = `https://mock-storage.example.com/upload/${Date.now()}-${filename}`
-    const mockFileUrl = `https://mock-storage.example.com/files/${Date.now()}-${filename}`
+    // Keys are generated server-side; the client's filename is never used in paths
+    const upload = await storage.createUpload(createStorageKey(category, contentType), contentType, size)
 
-    res.status(200).json({
-      uploadUrl: mockUploadUrl,
-      fileUrl: mockFileUrl,
-    })
+    res.status(200).json(upload)
   } catch (error) {
     console.error("Upload URL generation error:", error)
     res.status(500).json({ error: "Failed to generate upload URL" })
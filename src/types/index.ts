@@ -1,3 +1,9 @@
+export interface JobAttempt {
+  modelId: string
+  startedAt: Date
+  error?: string
+}
+
 export interface Job {
   jobId: string
   status: "pending" | "processing" | "completed" | "failed" | "cancelled"
@@ -9,6 +15,21 @@ export interface Job {
   updatedAt: Date
   error?: string
   eta?: number
+  // Position in the model's queue while pending, 1 being next to start
+  queuePosition?: number
+  kind: "generate" | "edit"
+  // Sanitized request the job was started with
+  params: GenerationParams | EditParams
+  // Seed the model actually used, whether requested or picked at random
+  resolvedSeed?: number
+  // Completed job whose result this edit started from
+  parentJobId?: string
+  // Failed job this one was resubmitted from
+  retryOfJobId?: string
+  // Every run of the job, including automatic retries and failovers
+  attempts?: JobAttempt[]
+  // Consent attested for edits in modes that require it
+  consent?: ConsentRecord
 }
 
 export interface GenerationParams {
@@ -19,20 +40,138 @@ export interface GenerationParams {
   aspectRatio: string
   strength?: number
   seed?: number
+  // Pins the request to one model instead of routing by mode
+  modelId?: string
+  retryOfJobId?: string
 }
 
 export interface EditParams extends GenerationParams {
   imageUrl: string
   maskUrl: string
+  parentJobId?: string
+  // Required for modes with a requiresConsent policy
+  consent?: ConsentAttestation
+}
+
+// A mask kept in the browser for the session, to reuse across edits of one image
+export interface SavedMask {
+  id: string
+  // The image the mask was drawn for
+  imageUrl: string
+  // Opaque PNG at the image's native resolution, as sent with edits
+  blob: Blob
+  // Object URL for thumbnails, released when the mask is deleted
+  previewUrl: string
+  createdAt: Date
 }
 
+// Sent by the client when the user confirms a mode's consent statement
+export interface ConsentAttestation {
+  attested: true
+  // Version of the statement the user was shown
+  version: string
+}
+
+// What the server stores on the job for auditing
+export interface ConsentRecord {
+  version: string
+  statement: string
+  attestedAt: Date
+}
+
+// Adapters run jobs that the scheduler has already created. generate() and
+// edit() resolve once the job is completed and reject if processing fails.
 export interface ModelAdapter {
-  generate(params: GenerationParams): Promise<Job>
-  edit(params: EditParams): Promise<Job>
+  generate(jobId: string, params: GenerationParams): Promise<void>
+  edit(jobId: string, params: EditParams): Promise<void>
   status(jobId: string): Promise<Job>
   cancel(jobId: string): Promise<boolean>
 }
 
+// Top-level key prefix separating kinds of stored files
+export type StorageCategory = "uploads" | "results" | "masks"
+
+// Categories clients may request upload URLs for; results are only written by adapters
+export type UploadCategory = Exclude<StorageCategory, "results">
+
+export interface SignedUpload {
+  key: string
+  // Signed URL to PUT the file to, valid until expiresAt
+  uploadUrl: string
+  // Signed URL to read the file back once uploaded
+  fileUrl: string
+  expiresAt: Date
+}
+
+export interface StoredFile {
+  data: Buffer
+  contentType: string
+}
+
+export interface StorageProvider {
+  // The URL only accepts a file of exactly this type and size
+  createUpload(key: string, contentType: string, size: number): Promise<SignedUpload>
+  // Signed, expiring URL for reading a stored file
+  getReadUrl(key: string): Promise<string>
+  // Stores a file from the server and returns its read URL
+  put(key: string, data: Buffer, contentType: string): Promise<string>
+  // Loads a file this provider issued `url` for; null for any other URL
+  read(url: string): Promise<StoredFile | null>
+  // Like read(), but only checks that the file is there, without downloading it
+  exists(url: string): Promise<boolean>
+}
+
+export type PromptRuleAction = "redact" | "reject" | "rewrite"
+
+// A prompt policy rule that matched, reported so clients can explain rejections
+export interface PromptRuleMatch {
+  ruleId: string
+  action: PromptRuleAction
+  message?: string
+}
+
+// 400 body returned by the API routes when a request fails schema validation
+export interface ValidationErrorResponse {
+  error: string
+  // Messages per field path, e.g. { size: ["Size must be one of: ..."] }
+  fieldErrors: Record<string, string[]>
+  // Prompt policy rules that fired, when a prompt was rejected
+  rules?: PromptRuleMatch[]
+}
+
+export interface JobStore {
+  create(job: Job): Promise<Job>
+  get(jobId: string): Promise<Job | null>
+  update(jobId: string, updates: Partial<Job>): Promise<Job | null>
+  delete(jobId: string): Promise<boolean>
+  list(): Promise<Job[]>
+  cleanup(): Promise<void>
+}
+
+export type ModelCapability = "textToImage" | "imageToImage" | "inpainting"
+
+// Public description of a registered model, as listed by /api/models
+export interface ModelInfo {
+  id: string
+  name: string
+  provider: string
+  capabilities: Record<ModelCapability, boolean> & {
+    maxResolution: string
+    supportedFormats: string[]
+  }
+  pricing?: {
+    costPerImage: number
+    currency: string
+  }
+}
+
+// What a model must support to serve a request
+export interface ModelRequirements {
+  capabilities: ModelCapability[]
+  // Smallest acceptable maxResolution, as "WIDTHxHEIGHT"
+  minResolution?: string
+}
+
 export interface Mode {
   id: string
   name: string
@@ -43,6 +182,14 @@ export interface Mode {
   recommendedSize: string
   strengthDefault: number
   category: string
+  requirements?: ModelRequirements
+  // Models to try first for this mode, ahead of the global preference order
+  preferredModels?: string[]
+  // Edits in this mode need the user to attest to this statement first
+  requiresConsent?: {
+    version: string
+    statement: string
+  }
 }
 
 export interface Preset {
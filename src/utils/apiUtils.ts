@@ -0,0 +1,10 @@
+import type { ValidationErrorResponse } from "../types"
+
+// Message for a failed API response, listing field errors from schema validation
+export function getApiErrorMessage(body: Partial<ValidationErrorResponse> | null, fallback: string): string {
+  if (body?.fieldErrors) {
+    const messages = Object.values(body.fieldErrors).flat()
+    if (messages.length > 0) return messages.join(". ")
+  }
+  return body?.error || fallback
+}
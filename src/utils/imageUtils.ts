@@ -1,17 +1,134 @@
+import limits from "../config/limits.json"
+
 export function generateJobId(): string {
   return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
 
-export function validateImageFile(file: File): { valid: boolean; error?: string } {
-  const allowedTypes = ["image/jpeg", "image/png", "image/webp"]
-  const maxSize = 10 * 1024 * 1024 // 10MB
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (limits.generation.maxSeed + 1))
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+}
+
+export function getImageExtension(contentType: string): string | undefined {
+  return IMAGE_EXTENSIONS[contentType]
+}
+
+// Content type for a file name or storage key, from its extension
+export function getImageContentType(filename: string): string | undefined {
+  const extension = filename.split(".").pop()?.toLowerCase()
+  return Object.keys(IMAGE_EXTENSIONS).find((contentType) => IMAGE_EXTENSIONS[contentType] === extension)
+}
+
+// Splits a base64 data: URL into its content type and payload
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/)
+  return match ? { mimeType: match[1], data: match[2] } : null
+}
+
+// Identifies an image by its magic bytes, so stored files are checked by
+// content rather than by the Content-Type the client claimed
+export function detectImageType(data: Uint8Array): string | null {
+  const startsWith = (bytes: number[], offset = 0) => bytes.every((byte, i) => data[offset + i] === byte)
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp"
+  return null
+}
+
+// Reads pixel dimensions from a PNG, JPEG or WebP header without decoding the image
+export function getImageDimensions(data: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  try {
+    switch (detectImageType(data)) {
+      case "image/png":
+        // IHDR is always the first chunk
+        return { width: view.getUint32(16), height: view.getUint32(20) }
+
+      case "image/jpeg": {
+        // Walk the segments up to the start-of-frame marker. Browsers apply the
+        // Exif orientation, so for rotated photos (5-8) the frame's sides are swapped.
+        let offset = 2
+        let orientation = 1
+        while (offset + 9 < data.length) {
+          if (data[offset] !== 0xff) return null
+          const marker = data[offset + 1]
+          const length = view.getUint16(offset + 2)
+          if (marker === 0xe1) {
+            orientation = readExifOrientation(view, offset + 4, offset + 2 + length) ?? orientation
+          }
+          const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)
+          if (isStartOfFrame) {
+            const width = view.getUint16(offset + 7)
+            const height = view.getUint16(offset + 5)
+            return orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height }
+          }
+          offset += 2 + length
+        }
+        return null
+      }
+
+      case "image/webp": {
+        const chunk = String.fromCharCode(...data.subarray(12, 16))
+        if (chunk === "VP8 ") {
+          return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+        }
+        if (chunk === "VP8L") {
+          const bits = view.getUint32(21, true)
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+        }
+        if (chunk === "VP8X") {
+          const readUint24 = (at: number) => data[at] | (data[at + 1] << 8) | (data[at + 2] << 16)
+          return { width: readUint24(24) + 1, height: readUint24(27) + 1 }
+        }
+        return null
+      }
+
+      default:
+        return null
+    }
+  } catch {
+    // Truncated header
+    return null
+  }
+}
+
+// Orientation tag from the first IFD of an APP1 Exif segment spanning [start, end)
+function readExifOrientation(view: DataView, start: number, end: number): number | null {
+  // "Exif" followed by two zero bytes, then a TIFF header
+  if (end - start < 14 || view.getUint32(start) !== 0x45786966 || view.getUint16(start + 4) !== 0) return null
+
+  const tiff = start + 6
+  const byteOrder = view.getUint16(tiff)
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null
+  const littleEndian = byteOrder === 0x4949
 
-  if (!allowedTypes.includes(file.type)) {
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian)
+  if (ifd + 2 > end) return null
+
+  const entries = view.getUint16(ifd, littleEndian)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > end) return null
+    if (view.getUint16(entry, littleEndian) === 0x0112) return view.getUint16(entry + 8, littleEndian)
+  }
+  return null
+}
+
+export function validateImageFile(file: File): { valid: boolean; error?: string } {
+  if (!limits.upload.allowedFormats.includes(file.type)) {
     return { valid: false, error: "Invalid file type. Please use JPEG, PNG, or WebP." }
   }
 
-  if (file.size > maxSize) {
-    return { valid: false, error: "File too large. Maximum size is 10MB." }
+  if (file.size > limits.upload.maxSizeBytes) {
+    const maxMegabytes = Math.round(limits.upload.maxSizeBytes / (1024 * 1024))
+    return { valid: false, error: `File too large. Maximum size is ${maxMegabytes}MB.` }
   }
 
   return { valid: true }
@@ -47,11 +164,6 @@ export function resizeImage(file: File, maxWidth: number, maxHeight: number, qua
   })
 }
 
-export function createMaskFromCanvas(canvas: HTMLCanvasElement): string {
-  // Convert canvas to base64 PNG for mask data
-  return canvas.toDataURL("image/png")
-}
-
 export function downloadImage(url: string, filename: string): void {
   const link = document.createElement("a")
   link.href = url
@@ -60,3 +172,55 @@ export function downloadImage(url: string, filename: string): void {
   link.click()
   document.body.removeChild(link)
 }
+
+// Per-channel differences up to this are treated as compression noise
+const DIFFERENCE_NOISE = 8
+// Differences this far above the noise are highlighted at full strength
+const DIFFERENCE_RANGE = 64
+
+// Highlights where an edit changed an image: the result in faded grayscale,
+// with changed pixels tinted red by how much they changed. The original is
+// scaled to the result's size, so the two are compared pixel for pixel.
+export async function createDifferenceImage(originalUrl: string, resultUrl: string): Promise<Blob> {
+  const [original, result] = await Promise.all([loadBitmap(originalUrl), loadBitmap(resultUrl)])
+  const { width, height } = result
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas 2D context is not available")
+
+  ctx.drawImage(original, 0, 0, width, height)
+  const before = ctx.getImageData(0, 0, width, height).data
+  ctx.drawImage(result, 0, 0)
+  const image = ctx.getImageData(0, 0, width, height)
+  const after = image.data
+  original.close()
+  result.close()
+
+  for (let p = 0; p < after.length; p += 4) {
+    const difference = Math.max(
+      Math.abs(after[p] - before[p]),
+      Math.abs(after[p + 1] - before[p + 1]),
+      Math.abs(after[p + 2] - before[p + 2]),
+    )
+    const strength = Math.min(1, Math.max(0, (difference - DIFFERENCE_NOISE) / DIFFERENCE_RANGE))
+    const gray = (0.299 * after[p] + 0.587 * after[p + 1] + 0.114 * after[p + 2]) * 0.4
+    after[p] = gray + (255 - gray) * strength
+    after[p + 1] = after[p + 2] = gray * (1 - strength)
+    after[p + 3] = 255
+  }
+  ctx.putImageData(image, 0, 0)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to export difference image"))), "image/png")
+  })
+}
+
+// Fetched rather than loaded through an <img>, so reading the pixels does not
+// taint the canvas; other origins still need CORS
+async function loadBitmap(url: string): Promise<ImageBitmap> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to load image: ${response.status}`)
+  return createImageBitmap(await response.blob())
+}
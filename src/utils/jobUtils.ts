@@ -0,0 +1,5 @@
+import type { Job } from "../types"
+
+export function isTerminalStatus(status: Job["status"]): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled"
+}
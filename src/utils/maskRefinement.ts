@@ -0,0 +1,226 @@
+// Post-processing for masks, on one byte per pixel (0 keeps the image, 255
+// changes it). Free of DOM APIs so it can run anywhere, including a worker.
+
+export interface MaskRefinement {
+  // Blur radius for soft edges, in image pixels; 0 keeps the mask black and white
+  feather: number
+  // Pixels to dilate (positive) or erode (negative) the mask by
+  grow: number
+  // Paint over unpainted areas that are completely enclosed by the mask
+  fillHoles: boolean
+  // Drop painted islands smaller than this many pixels
+  minSpeckArea: number
+}
+
+export const NO_REFINEMENT: MaskRefinement = { feather: 0, grow: 0, fillHoles: false, minSpeckArea: 0 }
+
+export function isRefined(refinement: MaskRefinement): boolean {
+  return (
+    refinement.feather > 0 || refinement.grow !== 0 || refinement.fillHoles || refinement.minSpeckArea > 0
+  )
+}
+
+// Applies the refinements in a fixed order: holes and specks are cleaned up
+// on the binary mask, then it is grown or shrunk, then feathered. Soft strokes
+// are made hard first, unless feathering is the only refinement.
+export function refineMask(mask: Uint8Array, width: number, height: number, refinement: MaskRefinement): Uint8Array {
+  const isBinary = refinement.fillHoles || refinement.minSpeckArea > 0 || refinement.grow !== 0
+  let result = isBinary ? mask.map((value) => (value >= 128 ? 255 : 0)) : mask
+  if (refinement.fillHoles) result = fillHoles(result, width, height)
+  if (refinement.minSpeckArea > 0) result = removeSpecks(result, width, height, refinement.minSpeckArea)
+  if (refinement.grow !== 0) result = growMask(result, width, height, refinement.grow)
+  if (refinement.feather > 0) result = featherMask(result, width, height, refinement.feather)
+  return result
+}
+
+// Unpainted pixels that cannot reach the border without crossing the mask
+export function fillHoles(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const outside = new Uint8Array(width * height)
+  const stack: number[] = []
+  const visit = (index: number) => {
+    if (!mask[index] && !outside[index]) {
+      outside[index] = 1
+      stack.push(index)
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    visit(x)
+    visit((height - 1) * width + x)
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width)
+    visit(y * width + width - 1)
+  }
+
+  while (stack.length > 0) {
+    const index = stack.pop()!
+    const x = index % width
+    if (x > 0) visit(index - 1)
+    if (x < width - 1) visit(index + 1)
+    if (index >= width) visit(index - width)
+    if (index < width * (height - 1)) visit(index + width)
+  }
+
+  const result = new Uint8Array(mask.length)
+  for (let i = 0; i < result.length; i++) result[i] = outside[i] ? 0 : 255
+  return result
+}
+
+// Clears 8-connected painted islands with fewer than minArea pixels
+export function removeSpecks(mask: Uint8Array, width: number, height: number, minArea: number): Uint8Array {
+  const result = mask.slice()
+  const seen = new Uint8Array(width * height)
+  const component: number[] = []
+
+  for (let start = 0; start < result.length; start++) {
+    if (!result[start] || seen[start]) continue
+
+    // Collect the island; component doubles as the traversal stack
+    component.length = 0
+    component.push(start)
+    seen[start] = 1
+    for (let i = 0; i < component.length; i++) {
+      const index = component[i]
+      const x = index % width
+      const y = (index - x) / width
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx
+          const ny = y + dy
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+          const neighbour = ny * width + nx
+          if (result[neighbour] && !seen[neighbour]) {
+            seen[neighbour] = 1
+            component.push(neighbour)
+          }
+        }
+      }
+    }
+
+    if (component.length < minArea) {
+      for (const index of component) result[index] = 0
+    }
+  }
+
+  return result
+}
+
+// Dilates (amount > 0) or erodes (amount < 0) by a Euclidean distance
+export function growMask(mask: Uint8Array, width: number, height: number, amount: number): Uint8Array {
+  const radius = Math.abs(amount)
+  const growing = amount > 0
+  // Distance from every pixel to the nearest painted pixel when growing, or unpainted one when shrinking
+  const distances = squaredDistanceTransform(mask, width, height, growing)
+
+  const result = new Uint8Array(mask.length)
+  for (let i = 0; i < result.length; i++) {
+    const withinReach = distances[i] <= radius * radius
+    result[i] = growing ? (withinReach ? 255 : 0) : withinReach ? 0 : 255
+  }
+  return result
+}
+
+// Separable blur: three box blurs approximate a Gaussian with this radius
+export function featherMask(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  let values = Float32Array.from(mask)
+  const boxRadius = Math.max(1, Math.round(radius / Math.sqrt(3)))
+
+  for (let pass = 0; pass < 3; pass++) {
+    values = boxBlur(values, width, height, boxRadius, true)
+    values = boxBlur(values, width, height, boxRadius, false)
+  }
+
+  const result = new Uint8Array(mask.length)
+  for (let i = 0; i < result.length; i++) result[i] = Math.round(values[i])
+  return result
+}
+
+function boxBlur(
+  values: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean,
+): Float32Array {
+  const result = new Float32Array(values.length)
+  const length = horizontal ? width : height
+  const lines = horizontal ? height : width
+  const step = horizontal ? 1 : width
+  const size = radius * 2 + 1
+
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line
+    // Edges are extended, so the border does not darken the mask
+    const at = (i: number) => values[start + Math.min(length - 1, Math.max(0, i)) * step]
+
+    let sum = 0
+    for (let i = -radius; i <= radius; i++) sum += at(i)
+    for (let i = 0; i < length; i++) {
+      result[start + i * step] = sum / size
+      sum += at(i + radius + 1) - at(i - radius)
+    }
+  }
+
+  return result
+}
+
+// Exact squared Euclidean distance to the nearest target pixel (painted when
+// toPainted, otherwise unpainted), using Felzenszwalb and Huttenlocher's
+// two-pass lower envelope algorithm
+function squaredDistanceTransform(mask: Uint8Array, width: number, height: number, toPainted: boolean): Float32Array {
+  const distances = new Float32Array(width * height)
+  for (let i = 0; i < distances.length; i++) {
+    distances[i] = (mask[i] > 0) === toPainted ? 0 : Infinity
+  }
+
+  const size = Math.max(width, height)
+  const line = new Float32Array(size)
+  const output = new Float32Array(size)
+  const vertices = new Int32Array(size)
+  const boundaries = new Float32Array(size + 1)
+
+  const transformLine = (length: number) => {
+    let k = 0
+    vertices[0] = 0
+    boundaries[0] = -Infinity
+    boundaries[1] = Infinity
+
+    for (let q = 1; q < length; q++) {
+      if (line[q] === Infinity) continue
+      if (line[vertices[k]] === Infinity) {
+        vertices[k] = q
+        continue
+      }
+      let s = (line[q] + q * q - (line[vertices[k]] + vertices[k] * vertices[k])) / (2 * q - 2 * vertices[k])
+      while (k > 0 && s <= boundaries[k]) {
+        k--
+        s = (line[q] + q * q - (line[vertices[k]] + vertices[k] * vertices[k])) / (2 * q - 2 * vertices[k])
+      }
+      k++
+      vertices[k] = q
+      boundaries[k] = s
+      boundaries[k + 1] = Infinity
+    }
+
+    k = 0
+    for (let q = 0; q < length; q++) {
+      while (boundaries[k + 1] < q) k++
+      const offset = q - vertices[k]
+      output[q] = line[vertices[k]] === Infinity ? Infinity : offset * offset + line[vertices[k]]
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) line[y] = distances[y * width + x]
+    transformLine(height)
+    for (let y = 0; y < height; y++) distances[y * width + x] = output[y]
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) line[x] = distances[y * width + x]
+    transformLine(width)
+    for (let x = 0; x < width; x++) distances[y * width + x] = output[x]
+  }
+
+  return distances
+}
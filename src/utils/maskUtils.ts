@@ -0,0 +1,447 @@
+// Masks are recorded as operations in the source image's pixel coordinates,
+// so they can be replayed at native resolution for display and export. The
+// mask canvas is opaque: white where the image should change, black elsewhere,
+// and gray where soft or translucent strokes blend the two.
+
+export interface MaskPoint {
+  x: number
+  y: number
+  // Pen pressure from 0 to 1; missing for input without pressure, such as a mouse
+  pressure?: number
+}
+
+export interface MaskBrushSettings {
+  // Diameter in image pixels, at full pressure
+  size: number
+  // 1 paints a solid disc, 0 fades all the way from the centre to the edge
+  hardness: number
+  // From 0 to 1; overlapping parts of one stroke do not build up
+  opacity: number
+}
+
+export interface MaskStroke extends MaskBrushSettings {
+  // Flat x, y pairs in image pixels; typed arrays keep long sessions small
+  points: Float32Array
+  // Pressure per point, or null when the input had none
+  pressures: Float32Array | null
+  isEraser: boolean
+}
+
+// A single stamp of the brush; strokes are drawn as overlapping dabs
+export interface MaskDab {
+  x: number
+  y: number
+  radius: number
+}
+
+// Whether a selection paints into the mask or cuts out of it
+export type SelectionMode = "add" | "subtract"
+
+export type MaskShape =
+  | { kind: "rectangle" | "ellipse"; x: number; y: number; width: number; height: number }
+  // Freehand lassos and click-placed polygons, as flat x, y pairs
+  | { kind: "polygon"; points: Float32Array }
+
+// A pixel selection such as a magic-wand result, as runs of selected pixels:
+// flat pairs of start index (y * width + x) and length, never crossing a row
+export interface MaskRegion {
+  width: number
+  height: number
+  runs: Uint32Array
+}
+
+export type MaskOperation =
+  | { type: "stroke"; stroke: MaskStroke }
+  | { type: "shape"; shape: MaskShape; mode: SelectionMode }
+  | { type: "region"; region: MaskRegion; mode: SelectionMode }
+  | { type: "clear" }
+  | { type: "fill" }
+  | { type: "invert" }
+  // Replaces the whole mask with an opaque canvas of the same size, as when a
+  // mask is imported; isBinary is false when it has gray values
+  | { type: "replace"; mask: HTMLCanvasElement; isBinary: boolean }
+
+// Pressure never thins a stroke below this fraction of the brush size
+const MIN_PRESSURE_SCALE = 0.1
+
+// Distance between dabs as a fraction of their radius; close enough that hard
+// edges do not look scalloped
+const DAB_SPACING = 0.15
+
+// Packs captured points into a stroke, dropping points that are closer than a
+// fraction of the brush to the last one kept
+export function createStroke(points: MaskPoint[], brush: MaskBrushSettings, isEraser: boolean): MaskStroke {
+  const kept = simplifyPoints(points, Math.max(1, brush.size / 8))
+  const hasPressure = kept.some((point) => point.pressure !== undefined)
+
+  return {
+    ...brush,
+    points: packPoints(kept),
+    pressures: hasPressure ? Float32Array.from(kept, (point) => point.pressure ?? 1) : null,
+    isEraser,
+  }
+}
+
+export function isSoftStroke(stroke: MaskBrushSettings): boolean {
+  return stroke.hardness < 1 || stroke.opacity < 1
+}
+
+// Points further apart than minDistance, always keeping the last one
+function simplifyPoints(points: MaskPoint[], minDistance: number): MaskPoint[] {
+  const kept: MaskPoint[] = []
+  let last: MaskPoint | null = null
+
+  points.forEach((point, i) => {
+    const isEnd = i === points.length - 1
+    if (last && !isEnd && Math.hypot(point.x - last.x, point.y - last.y) < minDistance) return
+    kept.push(point)
+    last = point
+  })
+
+  return kept
+}
+
+function packPoints(points: MaskPoint[]): Float32Array {
+  const packed = new Float32Array(points.length * 2)
+  points.forEach((point, i) => {
+    packed[i * 2] = point.x
+    packed[i * 2 + 1] = point.y
+  })
+  return packed
+}
+
+function unpackStroke({ points, pressures }: MaskStroke): MaskPoint[] {
+  const unpacked: MaskPoint[] = []
+  for (let i = 0; i < points.length; i += 2) {
+    unpacked.push({ x: points[i], y: points[i + 1], pressure: pressures?.[i / 2] })
+  }
+  return unpacked
+}
+
+// The box between two corners of a drag; constrain makes it a square or circle
+export function createBoxShape(
+  kind: "rectangle" | "ellipse",
+  start: MaskPoint,
+  end: MaskPoint,
+  constrain = false,
+): MaskShape {
+  let width = end.x - start.x
+  let height = end.y - start.y
+  if (constrain) {
+    const side = Math.max(Math.abs(width), Math.abs(height))
+    width = Math.sign(width || 1) * side
+    height = Math.sign(height || 1) * side
+  }
+
+  return {
+    kind,
+    x: Math.min(start.x, start.x + width),
+    y: Math.min(start.y, start.y + height),
+    width: Math.abs(width),
+    height: Math.abs(height),
+  }
+}
+
+export function createPolygonShape(points: MaskPoint[]): MaskShape {
+  return { kind: "polygon", points: packPoints(simplifyPoints(points, 1)) }
+}
+
+// Shapes smaller than this in either direction are treated as stray clicks
+export function isShapeEmpty(shape: MaskShape): boolean {
+  if (shape.kind === "polygon") return shape.points.length < 6
+  return shape.width < 1 || shape.height < 1
+}
+
+// Adds the shape's outline to the current path
+export function traceShape(ctx: CanvasRenderingContext2D, shape: MaskShape): void {
+  switch (shape.kind) {
+    case "rectangle":
+      ctx.rect(shape.x, shape.y, shape.width, shape.height)
+      break
+    case "ellipse":
+      ctx.ellipse(
+        shape.x + shape.width / 2,
+        shape.y + shape.height / 2,
+        shape.width / 2,
+        shape.height / 2,
+        0,
+        0,
+        Math.PI * 2,
+      )
+      break
+    case "polygon":
+      if (shape.points.length < 2) return
+      ctx.moveTo(shape.points[0], shape.points[1])
+      for (let i = 2; i < shape.points.length; i += 2) {
+        ctx.lineTo(shape.points[i], shape.points[i + 1])
+      }
+      ctx.closePath()
+      break
+  }
+}
+
+export function fillShape(ctx: CanvasRenderingContext2D, shape: MaskShape, mode: SelectionMode): void {
+  ctx.fillStyle = mode === "add" ? "#fff" : "#000"
+  ctx.beginPath()
+  traceShape(ctx, shape)
+  ctx.fill()
+}
+
+export function fillRegion(ctx: CanvasRenderingContext2D, region: MaskRegion, mode: SelectionMode): void {
+  const { width, height, runs } = region
+  const value = mode === "add" ? 255 : 0
+
+  // Paint the runs onto a transparent layer and composite it, so unselected pixels are untouched
+  const image = new ImageData(width, height)
+  const pixels = image.data
+  for (let i = 0; i < runs.length; i += 2) {
+    const end = (runs[i] + runs[i + 1]) * 4
+    for (let p = runs[i] * 4; p < end; p += 4) {
+      pixels[p] = pixels[p + 1] = pixels[p + 2] = value
+      pixels[p + 3] = 255
+    }
+  }
+
+  const layer = createCanvas(width, height)
+  getContext2D(layer).putImageData(image, 0, 0)
+  ctx.drawImage(layer, 0, 0)
+}
+
+// Places dabs along the Catmull-Rom curve through the points, for the segments
+// from `from` up to `to` (segment i joins point i to point i + 1). `travelled`
+// is the distance since the last dab, so a stroke can be laid down a few
+// segments at a time; pass Infinity to start with a dab on the first point.
+export function placeDabs(
+  points: MaskPoint[],
+  size: number,
+  from: number,
+  to: number,
+  travelled: number,
+): { dabs: MaskDab[]; travelled: number } {
+  const dabs: MaskDab[] = []
+  const radiusAt = (pressure = 1) => (size / 2) * (MIN_PRESSURE_SCALE + (1 - MIN_PRESSURE_SCALE) * pressure)
+
+  // A single point still leaves a dot
+  if (points.length === 1 && from === 0 && travelled === Infinity) {
+    dabs.push({ x: points[0].x, y: points[0].y, radius: radiusAt(points[0].pressure) })
+    return { dabs, travelled: 0 }
+  }
+
+  for (let i = from; i < Math.min(to, points.length - 1); i++) {
+    const p0 = points[i - 1] ?? points[i]
+    const p1 = points[i]
+    const p2 = points[i + 1]
+    const p3 = points[i + 2] ?? p2
+
+    // Walk the curve in short steps, dropping a dab every DAB_SPACING radii
+    const steps = Math.max(1, Math.ceil(Math.hypot(p2.x - p1.x, p2.y - p1.y) / 2))
+    let x = p1.x
+    let y = p1.y
+    for (let step = 0; step <= steps; step++) {
+      const t = step / steps
+      const nextX = catmullRom(t, p0.x, p1.x, p2.x, p3.x)
+      const nextY = catmullRom(t, p0.y, p1.y, p2.y, p3.y)
+      travelled += Math.hypot(nextX - x, nextY - y)
+      x = nextX
+      y = nextY
+
+      const radius = radiusAt((p1.pressure ?? 1) + ((p2.pressure ?? 1) - (p1.pressure ?? 1)) * t)
+      if (travelled >= Math.max(0.5, radius * DAB_SPACING)) {
+        dabs.push({ x, y, radius })
+        travelled = 0
+      }
+    }
+  }
+
+  return { dabs, travelled }
+}
+
+// Position at t (0-1) between b and c on the curve through a, b, c and d
+function catmullRom(t: number, a: number, b: number, c: number, d: number): number {
+  return 0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t * t + (3 * b - a - 3 * c + d) * t * t * t)
+}
+
+// Prepares a layer for dabs. Dabs record coverage as color: white on black
+// when painting and black on white when erasing, so they can be composited
+// onto the mask with screen or multiply.
+export function clearStrokeLayer(ctx: CanvasRenderingContext2D, isEraser: boolean): void {
+  ctx.globalCompositeOperation = "source-over"
+  ctx.fillStyle = isEraser ? "#fff" : "#000"
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+}
+
+// Lighten (or darken, when erasing) keeps the strongest dab where they
+// overlap, so a stroke never builds up over itself
+export function drawDabs(ctx: CanvasRenderingContext2D, dabs: MaskDab[], hardness: number, isEraser: boolean): void {
+  const [inner, outer] = isEraser ? ["#000", "#fff"] : ["#fff", "#000"]
+  ctx.globalCompositeOperation = isEraser ? "darken" : "lighten"
+
+  for (const { x, y, radius } of dabs) {
+    if (hardness >= 1) {
+      ctx.fillStyle = inner
+    } else {
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+      gradient.addColorStop(hardness, inner)
+      gradient.addColorStop(1, outer)
+      ctx.fillStyle = gradient
+    }
+    ctx.beginPath()
+    ctx.arc(x, y, radius, 0, Math.PI * 2)
+    ctx.fill()
+  }
+
+  ctx.globalCompositeOperation = "source-over"
+}
+
+// Draws the stroke's dabs on a layer the size of the stroke, then blends it
+// into the mask at the stroke's opacity
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: MaskStroke): void {
+  const { dabs } = placeDabs(unpackStroke(stroke), stroke.size, 0, Infinity, Infinity)
+  if (dabs.length === 0) return
+
+  let [left, top, right, bottom] = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const { x, y, radius } of dabs) {
+    left = Math.min(left, x - radius)
+    top = Math.min(top, y - radius)
+    right = Math.max(right, x + radius)
+    bottom = Math.max(bottom, y + radius)
+  }
+  left = Math.max(0, Math.floor(left) - 1)
+  top = Math.max(0, Math.floor(top) - 1)
+  right = Math.min(ctx.canvas.width, Math.ceil(right) + 1)
+  bottom = Math.min(ctx.canvas.height, Math.ceil(bottom) + 1)
+  if (right <= left || bottom <= top) return
+
+  const layer = createCanvas(right - left, bottom - top)
+  const layerCtx = getContext2D(layer)
+  clearStrokeLayer(layerCtx, stroke.isEraser)
+  layerCtx.translate(-left, -top)
+  drawDabs(layerCtx, dabs, stroke.hardness, stroke.isEraser)
+
+  ctx.globalAlpha = stroke.opacity
+  ctx.globalCompositeOperation = stroke.isEraser ? "multiply" : "screen"
+  ctx.drawImage(layer, left, top)
+  ctx.globalAlpha = 1
+  ctx.globalCompositeOperation = "source-over"
+}
+
+export function applyOperation(ctx: CanvasRenderingContext2D, operation: MaskOperation): void {
+  const { width, height } = ctx.canvas
+
+  switch (operation.type) {
+    case "stroke":
+      drawStroke(ctx, operation.stroke)
+      break
+    case "shape":
+      fillShape(ctx, operation.shape, operation.mode)
+      break
+    case "region":
+      fillRegion(ctx, operation.region, operation.mode)
+      break
+    case "clear":
+    case "fill":
+      ctx.fillStyle = operation.type === "fill" ? "#fff" : "#000"
+      ctx.fillRect(0, 0, width, height)
+      break
+    case "invert":
+      ctx.globalCompositeOperation = "difference"
+      ctx.fillStyle = "#fff"
+      ctx.fillRect(0, 0, width, height)
+      ctx.globalCompositeOperation = "source-over"
+      break
+    case "replace":
+      ctx.drawImage(operation.mask, 0, 0)
+      break
+  }
+}
+
+// Draws the mask from a base snapshot (or empty) and the operations after it
+export function replayOperations(
+  ctx: CanvasRenderingContext2D,
+  base: HTMLCanvasElement | null,
+  operations: MaskOperation[],
+): void {
+  const { width, height } = ctx.canvas
+  ctx.globalCompositeOperation = "source-over"
+  ctx.fillStyle = "#000"
+  ctx.fillRect(0, 0, width, height)
+  if (base) ctx.drawImage(base, 0, 0)
+
+  operations.forEach((operation) => applyOperation(ctx, operation))
+}
+
+export function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+export function getContext2D(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas 2D context is not available")
+  return ctx
+}
+
+// The mask providers expect, as one byte per pixel from 0 (keep) to 255
+// (change). Binary masks have their antialiased edges thresholded away.
+export function readMaskPixels(source: HTMLCanvasElement, binary = true): Uint8Array {
+  const pixels = getContext2D(source).getImageData(0, 0, source.width, source.height).data
+  const values = new Uint8Array(source.width * source.height)
+  for (let i = 0; i < values.length; i++) {
+    values[i] = binary ? (pixels[i * 4] >= 128 ? 255 : 0) : pixels[i * 4]
+  }
+  return values
+}
+
+// An opaque grayscale canvas from one byte per pixel
+export function createMaskCanvas(values: Uint8Array, width: number, height: number): HTMLCanvasElement {
+  const canvas = createCanvas(width, height)
+  const ctx = getContext2D(canvas)
+  const image = ctx.createImageData(width, height)
+  const pixels = image.data
+  for (let i = 0; i < values.length; i++) {
+    const p = i * 4
+    pixels[p] = pixels[p + 1] = pixels[p + 2] = values[i]
+    pixels[p + 3] = 255
+  }
+  ctx.putImageData(image, 0, 0)
+  return canvas
+}
+
+// Reads a mask image as one byte per pixel. Images with transparency are read
+// from their alpha channel, transparent marking the area to change; opaque
+// ones from their brightness, white marking it. Binary masks are thresholded
+// to black and white.
+export async function readMaskImage(
+  blob: Blob,
+  binary = true,
+): Promise<{ values: Uint8Array; width: number; height: number }> {
+  const bitmap = await createImageBitmap(blob, { premultiplyAlpha: "none" })
+  const { width, height } = bitmap
+  const ctx = getContext2D(createCanvas(width, height))
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const pixels = ctx.getImageData(0, 0, width, height).data
+  let hasAlpha = false
+  for (let i = 3; i < pixels.length && !hasAlpha; i += 4) hasAlpha = pixels[i] < 255
+
+  const values = new Uint8Array(width * height)
+  for (let i = 0; i < values.length; i++) {
+    const p = i * 4
+    const level = hasAlpha ? 255 - pixels[p + 3] : 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2]
+    values[i] = binary ? (level >= 128 ? 255 : 0) : Math.round(level)
+  }
+  return { values, width, height }
+}
+
+export function isMaskEmpty(values: Uint8Array): boolean {
+  return values.every((value) => value === 0)
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = "image/png"): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to export canvas"))), type)
+  })
+}
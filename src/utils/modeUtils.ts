@@ -0,0 +1,6 @@
+import type { Mode } from "../types"
+import modes from "../config/modes.json"
+
+export function findMode(modeId: string): Mode | undefined {
+  return (modes as Mode[]).find((mode) => mode.id === modeId)
+}
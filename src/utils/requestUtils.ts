@@ -0,0 +1,61 @@
+import type { IncomingMessage } from "http"
+
+export class PayloadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Request body exceeds ${maxBytes} bytes`)
+    this.name = "PayloadTooLargeError"
+  }
+}
+
+export class InvalidRequestBodyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "InvalidRequestBodyError"
+  }
+}
+
+// Buffers a raw request body (for routes with bodyParser disabled), giving up
+// as soon as it grows past maxBytes
+export async function readRequestBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declaredLength = Number(req.headers["content-length"])
+  if (declaredLength > maxBytes) {
+    throw new PayloadTooLargeError(maxBytes)
+  }
+
+  const chunks: Buffer[] = []
+  let length = 0
+
+  for await (const chunk of req) {
+    length += chunk.length
+    if (length > maxBytes) {
+      req.destroy()
+      throw new PayloadTooLargeError(maxBytes)
+    }
+    chunks.push(chunk)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+// Parses a JSON body, for routes that read the raw body themselves
+export async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const body = await readRequestBody(req, maxBytes)
+  if (body.length === 0) return {}
+
+  try {
+    return JSON.parse(body.toString("utf8"))
+  } catch {
+    throw new InvalidRequestBodyError("Request body must be valid JSON")
+  }
+}
+
+// Parses a multipart/form-data body with the platform's FormData parser
+export async function readFormData(req: IncomingMessage, maxBytes: number): Promise<FormData> {
+  const body = await readRequestBody(req, maxBytes)
+
+  try {
+    return await new Response(body, { headers: { "Content-Type": req.headers["content-type"] ?? "" } }).formData()
+  } catch {
+    throw new InvalidRequestBodyError("Request body must be valid multipart/form-data")
+  }
+}
@@ -1,7 +1,12 @@
-export async function getSignedUploadUrl(filename: string, contentType: string): Promise<string> {
-  // TODO: Replace with actual signed URL generation
-  // This would typically call your backend API to get a signed URL from S3/CloudFlare R2/etc
+import type { SignedUpload, UploadCategory } from "../types"
+import { getApiErrorMessage } from "./apiUtils"
 
+export async function getSignedUploadUrl(
+  filename: string,
+  contentType: string,
+  size: number,
+  category: UploadCategory = "uploads",
+): Promise<Pick<SignedUpload, "key" | "uploadUrl" | "fileUrl">> {
   try {
     const response = await fetch("/api/upload-url", {
       method: "POST",
@@ -11,38 +16,69 @@ export async function getSignedUploadUrl(filename: string, contentType: string):
       body: JSON.stringify({
         filename,
         contentType,
+        size,
+        category,
       }),
     })
 
     if (!response.ok) {
-      throw new Error("Failed to get upload URL")
+      const error = await response.json().catch(() => null)
+      throw new Error(getApiErrorMessage(error, "Failed to get upload URL"))
     }
 
-    const data = await response.json()
-    return data.uploadUrl
+    return await response.json()
   } catch (error) {
     console.error("Error getting signed upload URL:", error)
     throw error
   }
 }
 
-export async function uploadFileToSignedUrl(file: File, signedUrl: string): Promise<void> {
-  try {
-    const response = await fetch(signedUrl, {
-      method: "PUT",
-      body: file,
-      headers: {
-        "Content-Type": file.type,
-      },
-    })
+// Uses XMLHttpRequest rather than fetch() because only XHR reports upload progress
+export function uploadFileToSignedUrl(
+  file: Blob,
+  signedUrl: string,
+  onProgress?: (percent: number) => void,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open("PUT", signedUrl)
+    xhr.setRequestHeader("Content-Type", file.type)
 
-    if (!response.ok) {
-      throw new Error("Failed to upload file")
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(Math.round((event.loaded / event.total) * 100))
     }
-  } catch (error) {
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve()
+        return
+      }
+
+      let error = null
+      try {
+        error = JSON.parse(xhr.responseText)
+      } catch {
+        // Storage backends may answer with XML or plain text
+      }
+      reject(new Error(getApiErrorMessage(error, "Failed to upload file")))
+    }
+    xhr.onerror = () => reject(new Error("Failed to upload file"))
+
+    xhr.send(file)
+  }).catch((error) => {
     console.error("Error uploading file:", error)
     throw error
-  }
+  })
+}
+
+// Uploads a file through a signed URL and returns the URL to read it back
+export async function uploadFile(
+  file: Blob,
+  filename: string,
+  options: { category?: UploadCategory; onProgress?: (percent: number) => void } = {},
+): Promise<string> {
+  const { uploadUrl, fileUrl } = await getSignedUploadUrl(filename, file.type, file.size, options.category)
+  await uploadFileToSignedUrl(file, uploadUrl, options.onProgress)
+  return fileUrl
 }
 
 export function generateThumbnail(file: File, maxSize = 200): Promise<string> {
@@ -0,0 +1,154 @@
+// Magic-wand selection, run off the main thread on the source image at native
+// resolution. The image is decoded once on "load"; each "select" returns the
+// matching pixels as runs (see MaskRegion in utils/maskUtils).
+
+export type MagicWandRequest =
+  | { type: "load"; url: string }
+  | {
+      type: "select"
+      id: number
+      x: number
+      y: number
+      // 0 matches only the clicked color, 100 matches everything
+      tolerance: number
+      // Only pixels connected to the clicked one, or every similar pixel in the image
+      contiguous: boolean
+    }
+
+export type MagicWandResponse =
+  | { type: "loaded"; width: number; height: number }
+  | { type: "selected"; id: number; width: number; height: number; runs: Uint32Array }
+  | { type: "error"; id?: number; message: string }
+
+// Largest possible RGB distance, squared
+const MAX_DISTANCE_SQUARED = 3 * 255 * 255
+
+let image: { width: number; height: number; pixels: Uint8ClampedArray } | null = null
+
+self.onmessage = async (event: MessageEvent<MagicWandRequest>) => {
+  const request = event.data
+
+  try {
+    if (request.type === "load") {
+      image = await decodeImage(request.url)
+      respond({ type: "loaded", width: image.width, height: image.height })
+      return
+    }
+
+    if (!image) throw new Error("No image loaded")
+    const runs = select(image, request)
+    respond({ type: "selected", id: request.id, width: image.width, height: image.height, runs }, [runs.buffer])
+  } catch (error) {
+    respond({
+      type: "error",
+      id: request.type === "select" ? request.id : undefined,
+      message: error instanceof Error ? error.message : "Magic wand failed",
+    })
+  }
+}
+
+function respond(response: MagicWandResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer })
+}
+
+async function decodeImage(url: string) {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to load image: ${response.status}`)
+
+  const bitmap = await createImageBitmap(await response.blob())
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas 2D context is not available")
+
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return { width: canvas.width, height: canvas.height, pixels: ctx.getImageData(0, 0, canvas.width, canvas.height).data }
+}
+
+function select(
+  { width, height, pixels }: NonNullable<typeof image>,
+  { x, y, tolerance, contiguous }: Extract<MagicWandRequest, { type: "select" }>,
+): Uint32Array {
+  const seedX = Math.floor(x)
+  const seedY = Math.floor(y)
+  if (seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) return new Uint32Array()
+
+  const seed = (seedY * width + seedX) * 4
+  const [red, green, blue] = [pixels[seed], pixels[seed + 1], pixels[seed + 2]]
+  const threshold = (tolerance / 100) ** 2 * MAX_DISTANCE_SQUARED
+
+  const matches = (index: number) => {
+    const p = index * 4
+    const dr = pixels[p] - red
+    const dg = pixels[p + 1] - green
+    const db = pixels[p + 2] - blue
+    return dr * dr + dg * dg + db * db <= threshold
+  }
+
+  const selected = new Uint8Array(width * height)
+  if (contiguous) {
+    floodFill(selected, width, height, seedY * width + seedX, matches)
+  } else {
+    for (let i = 0; i < selected.length; i++) {
+      if (matches(i)) selected[i] = 1
+    }
+  }
+
+  return toRuns(selected, width, height)
+}
+
+// Scanline flood fill: fills each horizontal span at once and queues the rows above and below
+function floodFill(
+  selected: Uint8Array,
+  width: number,
+  height: number,
+  start: number,
+  matches: (index: number) => boolean,
+) {
+  const stack = [start]
+
+  while (stack.length > 0) {
+    const index = stack.pop()!
+    if (selected[index]) continue
+
+    const row = Math.floor(index / width) * width
+    let left = index
+    while (left > row && !selected[left - 1] && matches(left - 1)) left--
+    let right = index
+    while (right < row + width - 1 && !selected[right + 1] && matches(right + 1)) right++
+
+    for (let i = left; i <= right; i++) selected[i] = 1
+
+    for (const neighbourRow of [row - width, row + width]) {
+      if (neighbourRow < 0 || neighbourRow >= width * height) continue
+
+      // One seed per run of matching pixels in the neighbouring row
+      let inRun = false
+      for (let i = left; i <= right; i++) {
+        const neighbour = neighbourRow + (i - row)
+        const isCandidate = !selected[neighbour] && matches(neighbour)
+        if (isCandidate && !inRun) stack.push(neighbour)
+        inRun = isCandidate
+      }
+    }
+  }
+}
+
+function toRuns(selected: Uint8Array, width: number, height: number): Uint32Array {
+  const runs: number[] = []
+
+  for (let y = 0; y < height; y++) {
+    let runStart = -1
+    for (let x = 0; x <= width; x++) {
+      const index = y * width + x
+      const isSelected = x < width && selected[index] === 1
+      if (isSelected && runStart < 0) runStart = index
+      if (!isSelected && runStart >= 0) {
+        runs.push(runStart, index - runStart)
+        runStart = -1
+      }
+    }
+  }
+
+  return new Uint32Array(runs)
+}
@@ -0,0 +1,30 @@
+import { refineMask, type MaskRefinement } from "../utils/maskRefinement"
+
+// Mask refinement off the main thread, so dragging a refinement slider never
+// blocks painting. Masks are transferred, not copied, in both directions.
+
+export interface MaskRefinementRequest {
+  id: number
+  mask: Uint8Array
+  width: number
+  height: number
+  refinement: MaskRefinement
+}
+
+export type MaskRefinementResponse = { id: number; mask: Uint8Array } | { id: number; error: string }
+
+self.onmessage = (event: MessageEvent<MaskRefinementRequest>) => {
+  const { id, mask, width, height, refinement } = event.data
+
+  try {
+    const refined = refineMask(mask, width, height, refinement)
+    const response: MaskRefinementResponse = { id, mask: refined }
+    self.postMessage(response, { transfer: [refined.buffer] })
+  } catch (error) {
+    const response: MaskRefinementResponse = {
+      id,
+      error: error instanceof Error ? error.message : "Mask refinement failed",
+    }
+    self.postMessage(response)
+  }
+}